@@ -66,6 +66,10 @@ URL Source: ${url}
 Markdown Content:
 ${JSON.stringify(data)}`;
 
+const appDetailsUrl = (appId: string) =>
+  `https://store.steampowered.com/api/appdetails?appids=${appId}&filters=basic,genres&l=english&cc=us`;
+const appDetailsJson = (appId: string, type = 'game') => JSON.stringify({ [appId]: { success: true, data: { type } } });
+
 const createBundlePage = (name: string, mainAppId: string, extraAppId: string) => `
   <h2 class="pageheader">${name}</h2>
   <a class="tab_item" data-ds-appid="${mainAppId}" data-ds-review-count="2222" data-ds-review-percentage="84" data-ds-price-final="2499">
@@ -78,6 +82,23 @@ const createBundlePage = (name: string, mainAppId: string, extraAppId: string) =
   </a>
 `;
 
+// The analysed game of `createBundlePage`, as carried in `ownGames`.
+const createOwnGame = (name: string, appId: string) => ({
+  appId,
+  name: `${name} Base`,
+  imageUrl: `https://cdn.example.com/${appId}.jpg`,
+  reviewCount: 2222,
+  positiveReviewPercent: 84,
+  positiveReviewCount: null,
+  negativeReviewCount: null,
+  price: { amount: 24.99, currency: 'USD' },
+  itemType: 'game',
+  platforms: null,
+  deckCompatibility: null,
+  vrSupport: null,
+  tags: null,
+});
+
 let bundlesModule: BundlesModule;
 const originalFetch = globalThis.fetch;
 
@@ -108,7 +129,7 @@ afterEach(() => {
 test('extractBundlesFromHtml filters bundles by app id', () => {
   const { extractBundlesFromHtml } = bundlesModule;
   const result = extractBundlesFromHtml(SAMPLE_HTML, '111');
-  expect(result).toEqual([{ id: '123', name: 'Sample Bundle', games: [] }]);
+  expect(result).toEqual([{ kind: 'bundle', id: '123', name: 'Sample Bundle', games: [] }]);
 });
 
 test('extractBundleGamesFromHtml parses tab items with metadata', () => {
@@ -122,7 +143,14 @@ test('extractBundleGamesFromHtml parses tab items with metadata', () => {
       imageUrl: 'https://cdn.example.com/main.jpg',
       reviewCount: 4321,
       positiveReviewPercent: 82,
-      priceUsd: 19.99,
+      positiveReviewCount: null,
+      negativeReviewCount: null,
+      price: { amount: 19.99, currency: null },
+      itemType: null,
+      platforms: null,
+      deckCompatibility: null,
+      vrSupport: null,
+      tags: null,
     },
     {
       appId: '777',
@@ -130,7 +158,14 @@ test('extractBundleGamesFromHtml parses tab items with metadata', () => {
       imageUrl: 'https://cdn.example.com/side.jpg',
       reviewCount: 1234,
       positiveReviewPercent: 91,
-      priceUsd: 15.99,
+      positiveReviewCount: null,
+      negativeReviewCount: null,
+      price: { amount: 15.99, currency: null },
+      itemType: null,
+      platforms: null,
+      deckCompatibility: null,
+      vrSupport: null,
+      tags: null,
     },
   ]);
 });
@@ -143,18 +178,34 @@ test('extractBundleGamesFromHtml parses sanitized markdown content when tab item
     {
       appId: '1190970',
       name: 'House Flipper 2',
-      imageUrl: 'https://steamcdn-a.akamaihd.net/steam/apps/1190970/capsule_184x69.jpg',
+      imageUrl:
+        'https://shared.akamai.steamstatic.com/store_item_assets/steam/apps/1190970/acbf0f91bf304751429b34a1e8232157a961a449/capsule_184x69.jpg?t=1760690929',
       reviewCount: null,
       positiveReviewPercent: null,
-      priceUsd: null,
+      positiveReviewCount: null,
+      negativeReviewCount: null,
+      price: { amount: 27.99, currency: 'USD' },
+      itemType: null,
+      platforms: null,
+      deckCompatibility: null,
+      vrSupport: null,
+      tags: null,
     },
     {
       appId: '1811340',
       name: 'Spray Paint Simulator',
-      imageUrl: 'https://steamcdn-a.akamaihd.net/steam/apps/1811340/capsule_184x69.jpg',
+      imageUrl:
+        'https://shared.akamai.steamstatic.com/store_item_assets/steam/apps/1811340/f5c0aef21e46a5a449cd244328b78969030a3674/capsule_184x69.jpg?t=1749819588',
       reviewCount: null,
       positiveReviewPercent: null,
-      priceUsd: null,
+      positiveReviewCount: null,
+      negativeReviewCount: null,
+      price: { amount: 14.99, currency: 'USD' },
+      itemType: null,
+      platforms: null,
+      deckCompatibility: null,
+      vrSupport: null,
+      tags: null,
     },
   ]);
 });
@@ -169,7 +220,7 @@ test('fetchBundleNames falls back to proxy URLs when direct requests fail due to
   const { fetchBundleNames } = bundlesModule;
 
   const appId = '4242';
-  const directBundleListUrl = `https://store.steampowered.com/bundlelist/${appId}`;
+  const directBundleListUrl = `https://store.steampowered.com/bundlelist/${appId}?l=english&cc=us`;
   const directBundleUrl = (bundleId: string) =>
     `https://store.steampowered.com/bundle/${bundleId}?l=english&cc=us`;
   const proxyBundleListUrl = `https://r.jina.ai/${directBundleListUrl}`;
@@ -191,6 +242,9 @@ test('fetchBundleNames falls back to proxy URLs when direct requests fail due to
       [proxyBundleUrl(bundleId), html],
       [`https://cors.isomorphic-git.org/${directBundleUrl(bundleId)}`, html],
     ] as [string, string]),
+    ...[appId, '900', '901'].map(
+      (id) => [`https://r.jina.ai/${appDetailsUrl(id)}`, wrapProxyJson(appDetailsUrl(id), JSON.parse(appDetailsJson(id)))] as [string, string]
+    ),
   ]);
 
   const fetchMock = vi.fn(async (input: Parameters<typeof fetch>[0]) => {
@@ -220,6 +274,7 @@ test('fetchBundleNames falls back to proxy URLs when direct requests fail due to
 
   expect(bundles).toEqual([
     {
+      kind: 'bundle',
       id: '100',
       name: 'Proxy Tiny Bundle',
       games: [
@@ -229,11 +284,22 @@ test('fetchBundleNames falls back to proxy URLs when direct requests fail due to
           imageUrl: 'https://cdn.example.com/900.jpg',
           reviewCount: 555,
           positiveReviewPercent: 93,
-          priceUsd: 12.99,
+          positiveReviewCount: null,
+          negativeReviewCount: null,
+          price: { amount: 12.99, currency: 'USD' },
+          itemType: 'game',
+          platforms: null,
+          deckCompatibility: null,
+          vrSupport: null,
+          tags: null,
         },
       ],
+      ownGames: [createOwnGame('Proxy Tiny Bundle', appId)],
+      pricing: { finalPrice: null, originalTotal: { amount: 37.98, currency: 'USD' }, discountPercent: null, savings: null },
+      parsedBy: { title: 'dom', games: 'dom' },
     },
     {
+      kind: 'bundle',
       id: '200',
       name: 'Proxy Town Bundle',
       games: [
@@ -243,9 +309,19 @@ test('fetchBundleNames falls back to proxy URLs when direct requests fail due to
           imageUrl: 'https://cdn.example.com/901.jpg',
           reviewCount: 555,
           positiveReviewPercent: 93,
-          priceUsd: 12.99,
+          positiveReviewCount: null,
+          negativeReviewCount: null,
+          price: { amount: 12.99, currency: 'USD' },
+          itemType: 'game',
+          platforms: null,
+          deckCompatibility: null,
+          vrSupport: null,
+          tags: null,
         },
       ],
+      ownGames: [createOwnGame('Proxy Town Bundle', appId)],
+      pricing: { finalPrice: null, originalTotal: { amount: 37.98, currency: 'USD' }, discountPercent: null, savings: null },
+      parsedBy: { title: 'dom', games: 'dom' },
     },
   ]);
 
@@ -263,6 +339,7 @@ test('fetchBundleNames falls back to proxy URLs when direct requests fail due to
     proxyBundleListUrl,
     proxyBundleUrl('100'),
     proxyBundleUrl('200'),
+    ...[appId, '900', '901'].map((id) => `https://r.jina.ai/${appDetailsUrl(id)}`),
   ];
 
   expect(attemptedUrls).toHaveLength(expectedProxyCalls.length);
@@ -274,14 +351,21 @@ test('fetchBundleNames extracts titles from sanitized markdown bundle pages', as
   const { fetchBundleNames } = bundlesModule;
 
   const appId = '1337';
-  const directBundleListUrl = `https://store.steampowered.com/bundlelist/${appId}`;
+  const directBundleListUrl = `https://store.steampowered.com/bundlelist/${appId}?l=english&cc=us`;
   const directBundleUrl = (bundleId: string) =>
     `https://store.steampowered.com/bundle/${bundleId}?l=english&cc=us`;
   const proxyBundleListUrl = `https://r.jina.ai/${directBundleListUrl}`;
   const proxyBundleUrl = (bundleId: string) => `https://r.jina.ai/${directBundleUrl(bundleId)}`;
   const reviewUrl = (appId: string) =>
-    `https://store.steampowered.com/appreviews/${appId}?json=1&language=all&purchase_type=all&review_type=all&filter=all&num_per_page=0`;
+    `https://store.steampowered.com/appreviews/${appId}?json=1&language=all&purchase_type=all&review_type=all&filter=all&num_per_page=0&l=english&cc=us`;
   const proxyReviewUrl = (appId: string) => `https://r.jina.ai/${reviewUrl(appId)}`;
+  const appDetailsResponses = ['1190970', '1811340'].map(
+    (id) =>
+      [
+        `https://r.jina.ai/${appDetailsUrl(id)}`,
+        wrapProxyJson(appDetailsUrl(id), { [id]: { success: true, data: { type: 'game', genres: [{ id: '28' }] } } }),
+      ] as [string, string]
+  );
 
   const reviewResponses = new Map<string, string>([
     [
@@ -292,6 +376,8 @@ test('fetchBundleNames extracts titles from sanitized markdown bundle pages', as
           total_reviews: 120,
           total_positive: 90,
           total_negative: 30,
+          review_score: 6,
+          review_score_desc: 'Mostly Positive',
         },
       }),
     ],
@@ -303,6 +389,8 @@ test('fetchBundleNames extracts titles from sanitized markdown bundle pages', as
           total_reviews: 10,
           total_positive: 7,
           total_negative: 3,
+          review_score: 5,
+          review_score_desc: 'Positive',
         },
       }),
     ],
@@ -318,6 +406,7 @@ test('fetchBundleNames extracts titles from sanitized markdown bundle pages', as
     [proxyBundleUrl('54347'), SANITIZED_BUNDLE_PAGE],
     [`https://cors.isomorphic-git.org/${directBundleUrl('54347')}`, SANITIZED_BUNDLE_PAGE],
     ...Array.from(reviewResponses.entries()),
+    ...appDetailsResponses,
   ]);
 
   const fetchMock = vi.fn(async (input: Parameters<typeof fetch>[0]) => {
@@ -347,26 +436,65 @@ test('fetchBundleNames extracts titles from sanitized markdown bundle pages', as
 
   expect(bundles).toEqual([
     {
+      kind: 'bundle',
       id: '54347',
       name: 'Save 22% on House Flipper 2 x Spray Paint Simulator on Steam',
       games: [
         {
           appId: '1190970',
           name: 'House Flipper 2',
-          imageUrl: 'https://steamcdn-a.akamaihd.net/steam/apps/1190970/capsule_184x69.jpg',
+          imageUrl:
+          'https://shared.akamai.steamstatic.com/store_item_assets/steam/apps/1190970/acbf0f91bf304751429b34a1e8232157a961a449/capsule_184x69.jpg?t=1760690929',
           reviewCount: 120,
           positiveReviewPercent: 75,
-          priceUsd: null,
+          positiveReviewCount: 90,
+          negativeReviewCount: 30,
+          price: { amount: 27.99, currency: 'USD' },
+          itemType: 'game',
+          platforms: null,
+          deckCompatibility: null,
+          vrSupport: null,
+          tags: null,
+          reviews: {
+            overall: {
+              reviewCount: 120,
+              positiveReviewPercent: 75,
+              positiveReviewCount: 90,
+              negativeReviewCount: 30,
+              score: 6,
+              scoreDescription: 'Mostly Positive',
+            },
+          },
         },
         {
           appId: '1811340',
           name: 'Spray Paint Simulator',
-          imageUrl: 'https://steamcdn-a.akamaihd.net/steam/apps/1811340/capsule_184x69.jpg',
+          imageUrl:
+          'https://shared.akamai.steamstatic.com/store_item_assets/steam/apps/1811340/f5c0aef21e46a5a449cd244328b78969030a3674/capsule_184x69.jpg?t=1749819588',
           reviewCount: 10,
           positiveReviewPercent: 70,
-          priceUsd: null,
+          positiveReviewCount: 7,
+          negativeReviewCount: 3,
+          price: { amount: 14.99, currency: 'USD' },
+          itemType: 'game',
+          platforms: null,
+          deckCompatibility: null,
+          vrSupport: null,
+          tags: null,
+          reviews: {
+            overall: {
+              reviewCount: 10,
+              positiveReviewPercent: 70,
+              positiveReviewCount: 7,
+              negativeReviewCount: 3,
+              score: 5,
+              scoreDescription: 'Positive',
+            },
+          },
         },
       ],
+      pricing: { finalPrice: null, originalTotal: { amount: 42.98, currency: 'USD' }, discountPercent: null, savings: null },
+      parsedBy: { title: 'markdown', games: 'markdown' },
     },
   ]);
 });
@@ -402,6 +530,11 @@ test('fetchBundleNames logs errors and continues when some bundle pages fail', a
       return new Response(createBundlePage('Working Bundle', appId, '998'), { status: 200 });
     }
 
+    const appDetailsId = url.match(/appdetails\?appids=(\d+)/)?.[1];
+    if (appDetailsId) {
+      return new Response(appDetailsJson(appDetailsId), { status: 200 });
+    }
+
     throw new Error(`Unexpected fetch URL ${url}`);
   });
 
@@ -419,6 +552,7 @@ test('fetchBundleNames logs errors and continues when some bundle pages fail', a
 
   expect(bundles).toEqual([
     {
+      kind: 'bundle',
       id: '200',
       name: 'Working Bundle',
       games: [
@@ -428,9 +562,19 @@ test('fetchBundleNames logs errors and continues when some bundle pages fail', a
           imageUrl: 'https://cdn.example.com/998.jpg',
           reviewCount: 555,
           positiveReviewPercent: 93,
-          priceUsd: 12.99,
+          positiveReviewCount: null,
+          negativeReviewCount: null,
+          price: { amount: 12.99, currency: 'USD' },
+          itemType: 'game',
+          platforms: null,
+          deckCompatibility: null,
+          vrSupport: null,
+          tags: null,
         },
       ],
+      ownGames: [createOwnGame('Working Bundle', appId)],
+      pricing: { finalPrice: null, originalTotal: { amount: 37.98, currency: 'USD' }, discountPercent: null, savings: null },
+      parsedBy: { title: 'dom', games: 'dom' },
     },
   ]);
 
@@ -462,6 +606,11 @@ test('fetchBundleNames reports progress updates while fetching bundles', async (
       return new Response(bundlePageHtml, { status: 200 });
     }
 
+    const appDetailsId = url.match(/appdetails\?appids=(\d+)/)?.[1];
+    if (appDetailsId) {
+      return new Response(appDetailsJson(appDetailsId), { status: 200 });
+    }
+
     throw new Error(`Unexpected fetch URL ${url}`);
   });
 
@@ -495,7 +644,7 @@ test('fetchBundleNames emits bundle updates during processing', async () => {
 
   const responses = new Map<string, string>([
     [
-      'https://store.steampowered.com/bundlelist/5151',
+      'https://store.steampowered.com/bundlelist/5151?l=english&cc=us',
       bundleListHtml,
     ],
     [
@@ -506,6 +655,7 @@ test('fetchBundleNames emits bundle updates during processing', async () => {
       'https://store.steampowered.com/bundle/401?l=english&cc=us',
       createBundlePage('Second Async Bundle', appId, '911'),
     ],
+    ...[appId, '910', '911'].map((id) => [appDetailsUrl(id), appDetailsJson(id)] as [string, string]),
   ]);
 
   const fetchMock = vi.fn(async (input: Parameters<typeof fetch>[0]) => {
@@ -551,3 +701,923 @@ test('fetchBundleNames emits bundle updates during processing', async () => {
     bundleUpdates.some((update) => !update.final && update.bundles.length === 1 && update.bundles[0].id === '400')
   ).toBe(true);
 });
+
+test('fetchBundleNames rejects with BundleFetchAbortError when the signal is aborted', async () => {
+  const { fetchBundleNames, BundleFetchAbortError } = bundlesModule;
+
+  const fetchMock = vi.fn(
+    (_input: Parameters<typeof fetch>[0], init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => {
+          reject(new DOMException('The operation was aborted.', 'AbortError'));
+        });
+      })
+  );
+
+  (globalThis as { fetch: typeof fetch }).fetch = fetchMock as unknown as typeof fetch;
+
+  const controller = new AbortController();
+  const pending = fetchBundleNames('6060', { signal: controller.signal });
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  controller.abort();
+
+  await expect(pending).rejects.toBeInstanceOf(BundleFetchAbortError);
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+});
+
+test('fetchBundleNames does not start requests for an already aborted signal', async () => {
+  const { fetchBundleNames, BundleFetchAbortError } = bundlesModule;
+
+  const fetchMock = vi.fn(async () => new Response('', { status: 200 }));
+  (globalThis as { fetch: typeof fetch }).fetch = fetchMock as unknown as typeof fetch;
+
+  const controller = new AbortController();
+  controller.abort();
+
+  await expect(fetchBundleNames('6061', { signal: controller.signal })).rejects.toBeInstanceOf(
+    BundleFetchAbortError
+  );
+  expect(fetchMock).not.toHaveBeenCalled();
+});
+
+test('fetchBundleNames routes requests through a custom transport', async () => {
+  const { fetchBundleNames } = bundlesModule;
+
+  const appId = '7070';
+  const responses = new Map<string, string>([
+    [
+      'https://store.steampowered.com/bundlelist/7070?l=english&cc=us',
+      '<a href="https://store.steampowered.com/bundle/700"></a>',
+    ],
+    [
+      'https://store.steampowered.com/bundle/700?l=english&cc=us',
+      createBundlePage('Transport Bundle', appId, '701'),
+    ],
+  ]);
+
+  const globalFetch = vi.fn(async () => {
+    throw new Error('Global fetch should not be used');
+  });
+  (globalThis as { fetch: typeof fetch }).fetch = globalFetch as unknown as typeof fetch;
+
+  const transport = vi.fn(async (url: string) => {
+    const body = responses.get(url);
+    if (!body) {
+      return new Response('Not found', { status: 404 });
+    }
+    return new Response(body, { status: 200 });
+  });
+
+  const bundles = await fetchBundleNames(appId, { transport });
+
+  expect(bundles.map(({ id, name }) => ({ id, name }))).toEqual([
+    { id: '700', name: 'Transport Bundle' },
+  ]);
+  expect(transport).toHaveBeenCalled();
+  expect(globalFetch).not.toHaveBeenCalled();
+});
+
+test('fetchBundleNamesByRegion requests each region and prices bundles in its currency', async () => {
+  const { BundleMasterClient, compareBundlesAcrossRegions } = bundlesModule;
+
+  const finalPrices: Record<string, string> = { de: '30,00€', fi: '33,50€', pl: '' };
+  const transport = vi.fn(async (url: string) => {
+    const country = /[?&]cc=(\w+)/.exec(url)?.[1] ?? '';
+    if (url.includes('/bundlelist/')) {
+      return new Response('<a href="https://store.steampowered.com/bundle/760"></a>', { status: 200 });
+    }
+    const totals = finalPrices[country]
+      ? `<div class="package_totals_area"><div class="price bundle_final_price_with_discount">${finalPrices[country]}</div></div>`
+      : '';
+    return new Response(createBundlePage('Regional Bundle', '7600', '7601') + totals, { status: 200 });
+  });
+  const client = new BundleMasterClient({ proxies: [], transport, countryCode: 'PL', language: 'polish' });
+
+  const [polish] = await client.fetchBundleNames('7600');
+  expect(polish.games[0].price).toEqual({ amount: 12.99, currency: 'PLN' });
+  expect(polish.pricing?.originalTotal).toEqual({ amount: 37.98, currency: 'PLN' });
+
+  const results = await client.fetchBundleNamesByRegion('7600', [
+    { countryCode: 'DE', language: 'german' },
+    { countryCode: 'fi' },
+  ]);
+
+  expect(results.map(({ region }) => region)).toEqual([
+    { countryCode: 'de', language: 'german' },
+    { countryCode: 'fi', language: 'polish' },
+  ]);
+  expect(transport.mock.calls.map(([url]) => url)).toContain(
+    'https://store.steampowered.com/bundle/760?l=german&cc=de'
+  );
+  expect(compareBundlesAcrossRegions(results)).toEqual([
+    expect.objectContaining({
+      id: '760',
+      name: 'Regional Bundle',
+      differenceFromFirst: {
+        de: { amount: 0, currency: 'EUR' },
+        fi: { amount: 3.5, currency: 'EUR' },
+      },
+    }),
+  ]);
+});
+
+test('fetchBundleNames merges packages from the bundle list with bundles', async () => {
+  const { BundleMasterClient, extractBundleRefsFromHtml } = bundlesModule;
+
+  const listHtml = `
+    <a href="https://store.steampowered.com/bundle/810"></a>
+    <a href="https://store.steampowered.com/sub/810/"></a>
+    <div class="tab_item" data-ds-packageid="811"></div>
+  `;
+  expect(extractBundleRefsFromHtml(listHtml)).toEqual([
+    { kind: 'bundle', id: '810' },
+    { kind: 'package', id: '810' },
+    { kind: 'package', id: '811' },
+  ]);
+
+  const packagePage = (id: string) => `
+    <div class="game_area_purchase_game">
+      <h1>Buy Package ${id}</h1>
+      <div class="discount_block" data-price-final="1999">
+        <div class="discount_final_price">$19.99</div>
+      </div>
+    </div>
+    <a class="tab_item" data-ds-appid="8100" data-ds-review-count="1" data-ds-review-percentage="90"><div class="tab_item_name">Base</div></a>
+    <a class="tab_item" data-ds-appid="8101" data-ds-review-count="1" data-ds-review-percentage="90"><div class="tab_item_name">Expansion</div></a>
+  `;
+  const pages = new Map<string, string>([
+    ['https://store.steampowered.com/bundlelist/8100?l=english&cc=us', listHtml],
+    ['https://store.steampowered.com/bundle/810?l=english&cc=us', createBundlePage('Bundle 810', '8100', '8102')],
+    ['https://store.steampowered.com/sub/810?l=english&cc=us', packagePage('810')],
+    ['https://store.steampowered.com/sub/811?l=english&cc=us', packagePage('811')],
+  ]);
+  const transport = vi.fn(async (url: string) =>
+    pages.has(url) ? new Response(pages.get(url), { status: 200 }) : new Response('Not found', { status: 404 })
+  );
+
+  const bundles = await new BundleMasterClient({ proxies: [], transport }).fetchBundleNames('8100');
+
+  expect(bundles.map(({ kind, id, name, pricing }) => ({ kind, id, name, finalPrice: pricing?.finalPrice }))).toEqual([
+    { kind: 'bundle', id: '810', name: 'Bundle 810', finalPrice: null },
+    { kind: 'package', id: '810', name: 'Package 810', finalPrice: { amount: 19.99, currency: 'USD' } },
+    { kind: 'package', id: '811', name: 'Package 811', finalPrice: { amount: 19.99, currency: 'USD' } },
+  ]);
+  expect(bundles[1].games.map((game) => game.name)).toEqual(['Expansion']);
+});
+
+test('fetchBundleNames builds a tag profile of the other items and matches it with the analysed game', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const item = (appId: string, tagIds: number[]) =>
+    `<a class="tab_item" data-ds-appid="${appId}" data-ds-tagids="[${tagIds.join(',')}]" data-ds-review-count="1" data-ds-review-percentage="90">
+      <div class="tab_item_name">Game ${appId}</div>
+    </a>`;
+  const page = `<h2 class="pageheader">Roguelike Pack</h2>
+    ${item('7800', [1716, 492])}
+    ${item('7801', [1716, 3959])}
+    ${item('7802', [1716, 492])}
+    ${item('7803', [1742])}`;
+  const transport = vi.fn(async (url: string) =>
+    url.includes('/bundlelist/')
+      ? new Response('<a href="https://store.steampowered.com/bundle/780"></a>', { status: 200 })
+      : new Response(page, { status: 200 })
+  );
+
+  const [bundle] = await new BundleMasterClient({ proxies: [], transport }).fetchBundleNames('7800');
+
+  expect(bundle.games.map((game) => game.appId)).toEqual(['7801', '7802', '7803']);
+  expect(bundle.tagProfile?.map(({ name, count, share }) => [name, count, Number(share.toFixed(2))])).toEqual([
+    ['Roguelike', 2, 0.67],
+    ['Indie', 1, 0.33],
+    ['Story Rich', 1, 0.33],
+    ['Roguelite', 1, 0.33],
+  ]);
+  expect(bundle.tagMatch).toBeCloseTo(3 / 5);
+});
+
+test('BundleMasterClient fetches recent and per-language review summaries when configured', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const reviewUrl = (query: string) =>
+    `https://store.steampowered.com/appreviews/821?json=1&language=${query}&purchase_type=all&review_type=all&filter=all&num_per_page=0`;
+  const summary = (total: number, positive: number, score: number, description: string) =>
+    JSON.stringify({
+      success: 1,
+      query_summary: { total_reviews: total, total_positive: positive, review_score: score, review_score_desc: description },
+    });
+  const responses = new Map<string, string>([
+    ['https://store.steampowered.com/bundlelist/8200?l=english&cc=us', '<a href="https://store.steampowered.com/bundle/820"></a>'],
+    [
+      'https://store.steampowered.com/bundle/820?l=english&cc=us',
+      `<h2 class="pageheader">Review Bundle</h2>
+      <a class="tab_item" data-ds-appid="821" data-ds-review-count="999" data-ds-review-percentage="91">
+        <div class="tab_item_name">Reviewed Game</div>
+      </a>`,
+    ],
+    [`${reviewUrl('all')}&l=english&cc=us`, summary(1000, 900, 8, 'Very Positive')],
+    [`${reviewUrl('all')}&day_range=30&l=english&cc=us`, summary(40, 20, 5, 'Mixed')],
+    [`${reviewUrl('polish')}&l=english&cc=us`, summary(60, 57, 7, 'Positive')],
+  ]);
+  const transport = vi.fn(async (url: string) => {
+    const body = responses.get(url);
+    return body ? new Response(body, { status: 200 }) : new Response('Not found', { status: 404 });
+  });
+
+  const client = new BundleMasterClient({ proxies: [], transport, reviews: { recent: true } });
+  const [bundle] = await client.fetchBundleNames('8200', { reviews: { languages: ['Polish'] } });
+
+  expect(bundle.games[0]).toMatchObject({
+    reviewCount: 999,
+    positiveReviewPercent: 91,
+    reviews: {
+      overall: { reviewCount: 1000, positiveReviewPercent: 90, score: 8, scoreDescription: 'Very Positive' },
+      recent: { reviewCount: 40, positiveReviewPercent: 50, score: 5, scoreDescription: 'Mixed' },
+      byLanguage: {
+        polish: { reviewCount: 60, positiveReviewPercent: 95, score: 7, scoreDescription: 'Positive' },
+      },
+    },
+  });
+});
+
+test('BundleMasterClient reports parser diagnostics for every fetched page', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const responses = new Map<string, string>([
+    [
+      'https://store.steampowered.com/bundlelist/8300?l=english&cc=us',
+      '<a href="https://store.steampowered.com/bundle/830"></a><a href="https://store.steampowered.com/bundle/831"></a>',
+    ],
+    ['https://store.steampowered.com/bundle/830?l=english&cc=us', createBundlePage('Diagnosed Bundle', '8300', '832')],
+    [
+      'https://store.steampowered.com/bundle/831?l=english&cc=us',
+      '<div id="app_agegate" class="app_agegate"><h2>Please enter your birth date to continue:</h2></div>',
+    ],
+  ]);
+  const transport = vi.fn(async (url: string) => {
+    const body = responses.get(url);
+    return body ? new Response(body, { status: 200 }) : new Response('Not found', { status: 404 });
+  });
+  const details: Array<{ title: string; body: string }> = [];
+  const logs: string[] = [];
+
+  await new BundleMasterClient({ proxies: [], transport }).fetchBundleNames('8300', {
+    reporter: {
+      log: (message) => logs.push(message),
+      detail: ({ title, body }) => details.push({ title, body }),
+    },
+  });
+
+  const diagnostics = details.filter(({ title }) => title.startsWith('Diagnostyka parsera'));
+  expect(diagnostics.map(({ title }) => title)).toEqual([
+    'Diagnostyka parsera (lista bundli)',
+    'Diagnostyka parsera (strona bundla 830)',
+    'Diagnostyka parsera (strona bundla 831)',
+  ]);
+  expect(diagnostics[0].body).toContain('kandydaci: 2');
+  expect(diagnostics[1].body).toContain('parser: dom (próbowane: dom)');
+  expect(diagnostics[2].body).toContain('typ strony: bramka wieku');
+  expect(diagnostics[2].body).toContain('nieodczytane pola: title');
+  expect(logs).toContain('Nie udało się ustalić tytułu bundla 831 w treści odpowiedzi (typ strony: bramka wieku).');
+});
+
+test('BundleMasterClient analyses several AppIDs, fetching shared bundle pages once', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const sharedPage = `<h2 class="pageheader">Portfolio Bundle</h2>
+    ${[
+      ['8400', 'Own One'],
+      ['8401', 'Own Two'],
+      ['8402', 'Partner'],
+    ]
+      .map(
+        ([appId, name]) =>
+          `<a class="tab_item" data-ds-appid="${appId}" data-ds-review-count="10" data-ds-review-percentage="90">
+            <div class="tab_item_name">${name}</div>
+          </a>`,
+      )
+      .join('')}`;
+  const responses = new Map<string, string>([
+    ['https://store.steampowered.com/bundlelist/8400?l=english&cc=us', '<a href="https://store.steampowered.com/bundle/840"></a>'],
+    [
+      'https://store.steampowered.com/bundlelist/8401?l=english&cc=us',
+      '<a href="https://store.steampowered.com/bundle/840"></a><a href="https://store.steampowered.com/bundle/841"></a>',
+    ],
+    ['https://store.steampowered.com/bundle/840?l=english&cc=us', sharedPage],
+    ['https://store.steampowered.com/bundle/841?l=english&cc=us', createBundlePage('Solo Bundle', '8401', '8403')],
+  ]);
+  const transport = vi.fn(async (url: string) => {
+    const body = responses.get(url);
+    return body ? new Response(body, { status: 200 }) : new Response('Not found', { status: 404 });
+  });
+
+  const bundles = await new BundleMasterClient({ proxies: [], transport }).fetchBundleNamesForApps([' 8400', '8401', '8400']);
+
+  expect(bundles.map(({ id, ownAppIds, games }) => [id, ownAppIds, games.map((game) => game.appId)])).toEqual([
+    ['840', ['8400', '8401'], ['8402']],
+    ['841', ['8401'], ['8403']],
+  ]);
+  expect(transport.mock.calls.filter(([url]) => url.includes('/bundle/840?'))).toHaveLength(1);
+  await expect(new BundleMasterClient({ proxies: [], transport }).fetchBundleNamesForApps(['8400', 'x1'])).rejects.toThrow(
+    /must be numeric/
+  );
+});
+
+test('BundleMasterClient keeps analysing a portfolio when one bundle list fails', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const responses = new Map<string, string>([
+    ['https://store.steampowered.com/bundlelist/8500?l=english&cc=us', '<a href="https://store.steampowered.com/bundle/850"></a>'],
+    ['https://store.steampowered.com/bundle/850?l=english&cc=us', createBundlePage('Surviving Bundle', '8500', '8502')],
+  ]);
+  const transport = vi.fn(async (url: string) => {
+    const body = responses.get(url);
+    return body ? new Response(body, { status: 200 }) : new Response('Not found', { status: 404 });
+  });
+  const details: string[] = [];
+  const errors: string[] = [];
+  const client = new BundleMasterClient({ proxies: [], transport });
+
+  const bundles = await client.fetchBundleNamesForApps(['8500', '8501'], {
+    reporter: {
+      log: (message, level) => {
+        if (level === 'error') {
+          errors.push(message);
+        }
+      },
+      detail: ({ title }) => details.push(title),
+    },
+  });
+
+  expect(bundles.map(({ id }) => id)).toEqual(['850']);
+  expect(errors).toContainEqual(expect.stringContaining('Nie udało się pobrać listy bundli dla AppID 8501'));
+  expect(details).toContain('Lista bundli pominięta (AppID 8501)');
+  await expect(client.fetchBundleNamesForApps(['8501', '8503'])).rejects.toThrow();
+});
+
+test('BundleMasterClient instances keep separate review caches', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const appId = '8080';
+  const reviewUrl =
+    'https://store.steampowered.com/appreviews/801?json=1&language=all&purchase_type=all&review_type=all&filter=all&num_per_page=0&l=english&cc=us';
+  const bundlePage = `
+    <h2 class="pageheader">Cache Bundle</h2>
+    <a class="tab_item" data-ds-appid="801">
+      <div class="tab_item_name">Cached Game</div>
+    </a>
+  `;
+  const responses = new Map<string, string>([
+    [
+      'https://store.steampowered.com/bundlelist/8080?l=english&cc=us',
+      '<a href="https://store.steampowered.com/bundle/800"></a>',
+    ],
+    ['https://store.steampowered.com/bundle/800?l=english&cc=us', bundlePage],
+    [
+      reviewUrl,
+      JSON.stringify({ success: 1, query_summary: { total_reviews: 50, total_positive: 40 } }),
+    ],
+  ]);
+
+  const transport = vi.fn(async (url: string) => {
+    const body = responses.get(url);
+    return body ? new Response(body, { status: 200 }) : new Response('Not found', { status: 404 });
+  });
+  const reviewCalls = () => transport.mock.calls.filter(([url]) => url === reviewUrl).length;
+
+  const first = new BundleMasterClient({ proxies: [], transport });
+  const second = new BundleMasterClient({ proxies: [], transport });
+
+  const [bundle] = await first.fetchBundleNames(appId);
+  expect(bundle.games[0]).toMatchObject({ appId: '801', reviewCount: 50, positiveReviewPercent: 80 });
+  expect(transport.mock.calls.every(([url]) => url.startsWith('https://store.steampowered.com/'))).toBe(
+    true
+  );
+
+  await first.fetchBundleNames(appId);
+  expect(reviewCalls()).toBe(1);
+
+  await second.fetchBundleNames(appId);
+  expect(reviewCalls()).toBe(2);
+
+  await first.clearCaches();
+  await first.fetchBundleNames(appId);
+  expect(reviewCalls()).toBe(3);
+});
+
+test('BundleMasterClient does not keep failed review and item type lookups', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const appId = '8090';
+  const reviewUrl =
+    'https://store.steampowered.com/appreviews/802?json=1&language=all&purchase_type=all&review_type=all&filter=all&num_per_page=0&l=english&cc=us';
+  const responses = new Map<string, string>([
+    [
+      'https://store.steampowered.com/bundlelist/8090?l=english&cc=us',
+      '<a href="https://store.steampowered.com/bundle/805"></a>',
+    ],
+    [
+      'https://store.steampowered.com/bundle/805?l=english&cc=us',
+      '<h2 class="pageheader">Flaky Bundle</h2><a class="tab_item" data-ds-appid="802"><div class="tab_item_name">Flaky Game</div></a>',
+    ],
+  ]);
+  let steamDown = true;
+  const transport = vi.fn(async (url: string) => {
+    if (url === reviewUrl || url.includes('/api/appdetails')) {
+      if (steamDown) {
+        return new Response('Not found', { status: 404 });
+      }
+      return new Response(
+        url === reviewUrl
+          ? JSON.stringify({ success: 1, query_summary: { total_reviews: 50, total_positive: 40 } })
+          : appDetailsJson(url.match(/appids=(\d+)/)![1]),
+        { status: 200 }
+      );
+    }
+    const body = responses.get(url);
+    return body ? new Response(body, { status: 200 }) : new Response('Not found', { status: 404 });
+  });
+  const reviewCalls = () => transport.mock.calls.filter(([url]) => url === reviewUrl).length;
+  const client = new BundleMasterClient({ proxies: [], transport });
+
+  const [failed] = await client.fetchBundleNames(appId);
+  expect(failed.games[0]).toMatchObject({ appId: '802', reviewCount: null, itemType: null });
+  expect(reviewCalls()).toBe(1);
+
+  steamDown = false;
+  const [refreshed] = await client.fetchBundleNames(appId, { forceRefresh: true });
+  expect(refreshed.games[0]).toMatchObject({ appId: '802', reviewCount: 50, positiveReviewPercent: 80, itemType: 'game' });
+  expect(reviewCalls()).toBe(2);
+
+  await client.fetchBundleNames(appId);
+  expect(reviewCalls()).toBe(2);
+});
+
+test('BundleMasterClient serves cached responses until their TTL expires', async () => {
+  const { BundleMasterClient } = bundlesModule;
+  const { createMemoryCacheStore } = await import('./responseCache');
+
+  const appId = '8181';
+  const responses = new Map<string, string>([
+    [
+      'https://store.steampowered.com/bundlelist/8181?l=english&cc=us',
+      '<a href="https://store.steampowered.com/bundle/810"></a>',
+    ],
+    [
+      'https://store.steampowered.com/bundle/810?l=english&cc=us',
+      createBundlePage('Cached Page Bundle', appId, '811'),
+    ],
+    ...[appId, '811'].map((id) => [appDetailsUrl(id), appDetailsJson(id)] as [string, string]),
+  ]);
+  const transport = vi.fn(async (url: string) => {
+    const body = responses.get(url);
+    return body ? new Response(body, { status: 200 }) : new Response('Not found', { status: 404 });
+  });
+
+  const store = createMemoryCacheStore();
+  const client = new BundleMasterClient({
+    proxies: [],
+    transport,
+    cache: { store, ttlMs: { bundleList: 1000 } },
+  });
+
+  const now = vi.spyOn(Date, 'now').mockReturnValue(10_000);
+
+  await client.fetchBundleNames(appId);
+  expect(transport).toHaveBeenCalledTimes(4);
+
+  const cached = await client.fetchBundleNames(appId);
+  expect(cached.map(({ name }) => name)).toEqual(['Cached Page Bundle']);
+  expect(transport).toHaveBeenCalledTimes(4);
+
+  now.mockReturnValue(12_000);
+  await client.fetchBundleNames(appId);
+  expect(transport.mock.calls.map(([url]) => url)).toEqual([
+    'https://store.steampowered.com/bundlelist/8181?l=english&cc=us',
+    'https://store.steampowered.com/bundle/810?l=english&cc=us',
+    appDetailsUrl(appId),
+    appDetailsUrl('811'),
+    'https://store.steampowered.com/bundlelist/8181?l=english&cc=us',
+  ]);
+
+  // A forced refresh skips the client's in-memory item types as well.
+  await client.fetchBundleNames(appId, { forceRefresh: true });
+  expect(transport).toHaveBeenCalledTimes(9);
+});
+
+test('BundleMasterClient does not cache error pages', async () => {
+  const { BundleMasterClient } = bundlesModule;
+  const { createMemoryCacheStore } = await import('./responseCache');
+
+  const appId = '8383';
+  const bundleUrl = 'https://store.steampowered.com/bundle/830?l=english&cc=us';
+  const pages = [
+    '<div id="error_box"><h2>An error was encountered while processing your request:</h2></div>',
+    createBundlePage('Recovered Bundle', appId, '831'),
+  ];
+  const transport = vi.fn(async (url: string) => {
+    if (url === bundleUrl) {
+      return new Response(pages.shift() ?? '', { status: 200 });
+    }
+    if (url.includes('/bundlelist/')) {
+      return new Response('<a href="https://store.steampowered.com/bundle/830"></a>', { status: 200 });
+    }
+    const appDetailsId = url.match(/appdetails\?appids=(\d+)/)?.[1];
+    return appDetailsId
+      ? new Response(appDetailsJson(appDetailsId), { status: 200 })
+      : new Response('Not found', { status: 404 });
+  });
+  const client = new BundleMasterClient({ proxies: [], transport, cache: { store: createMemoryCacheStore() } });
+  const bundlePageCalls = () => transport.mock.calls.filter(([url]) => url === bundleUrl).length;
+
+  await client.fetchBundleNames(appId);
+  const [bundle] = await client.fetchBundleNames(appId);
+  expect(bundle.name).toBe('Recovered Bundle');
+  expect(bundlePageCalls()).toBe(2);
+
+  await client.fetchBundleNames(appId);
+  expect(bundlePageCalls()).toBe(2);
+});
+
+test('BundleMasterClient moves failing proxies behind healthy ones and reports their stats', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const appId = '8282';
+  const deadProxy = 'https://dead.example/';
+  const liveProxy = 'https://live.example/';
+  const bundleListUrl = 'https://store.steampowered.com/bundlelist/8282?l=english&cc=us';
+  const bundleUrl = (bundleId: string) => `https://store.steampowered.com/bundle/${bundleId}?l=english&cc=us`;
+  const bundleIds = ['820', '821', '822', '823'];
+
+  const responses = new Map<string, string>([
+    [liveProxy + bundleListUrl, bundleIds.map((id) => `<a href="https://store.steampowered.com/bundle/${id}"></a>`).join('')],
+    ...bundleIds.map((id) => [liveProxy + bundleUrl(id), createBundlePage(`Bundle ${id}`, appId, '829')] as [string, string]),
+    ...[appId, '829'].map((id) => [liveProxy + appDetailsUrl(id), appDetailsJson(id)] as [string, string]),
+  ]);
+
+  const transport = vi.fn(async (url: string) => {
+    if (url.startsWith(deadProxy)) {
+      return new Response('Bad gateway', { status: 502 });
+    }
+    const body = responses.get(url);
+    return body ? new Response(body, { status: 200 }) : new Response('Not found', { status: 404 });
+  });
+
+  const statsUpdates: Array<Array<{ source: string; consecutiveFailures: number }>> = [];
+  const client = new BundleMasterClient({
+    proxies: [deadProxy, liveProxy],
+    transport,
+    bundleConcurrency: 1,
+    proxyHealth: { failureThreshold: 2, cooldownMs: 60_000 },
+    retry: { maxAttempts: 1 },
+  });
+
+  const bundles = await client.fetchBundleNames(appId, {
+    reporter: {
+      log() {},
+      proxyStats(stats) {
+        statsUpdates.push(stats);
+      },
+    },
+  });
+
+  expect(bundles).toHaveLength(4);
+  const deadAttempts = transport.mock.calls.filter(([url]) => url.startsWith(deadProxy));
+  expect(deadAttempts).toHaveLength(1);
+  expect(transport.mock.calls.some(([url]) => url.startsWith('https://store.steampowered.com/'))).toBe(false);
+
+  const deadStats = client.getProxyStats().find((entry) => entry.source === deadProxy);
+  expect(deadStats).toMatchObject({ failures: 1, consecutiveFailures: 1, successes: 0, disabledUntil: null });
+  expect(client.getProxyStats().find((entry) => entry.source === liveProxy)?.successes).toBe(7);
+  expect(statsUpdates.length).toBeGreaterThan(0);
+});
+
+test('BundleMasterClient skips a proxy during its cool-down after consecutive failures', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const deadProxy = 'https://dead.example/';
+  const transport = vi.fn(async (url: string) =>
+    url.startsWith(deadProxy)
+      ? new Response('Unavailable', { status: 503 })
+      : new Response('Not found', { status: 404 })
+  );
+  const client = new BundleMasterClient({
+    proxies: [deadProxy],
+    transport,
+    proxyHealth: { failureThreshold: 2, cooldownMs: 60_000 },
+    retry: { maxAttempts: 1 },
+  });
+
+  await expect(client.fetchBundleNames('8383')).rejects.toThrow();
+  await expect(client.fetchBundleNames('8383')).rejects.toThrow();
+  expect(transport.mock.calls.filter(([url]) => url.startsWith(deadProxy))).toHaveLength(2);
+
+  const logs: string[] = [];
+  await expect(
+    client.fetchBundleNames('8383', { reporter: { log: (message) => logs.push(message) } })
+  ).rejects.toThrow();
+
+  expect(transport.mock.calls.filter(([url]) => url.startsWith(deadProxy))).toHaveLength(2);
+  expect(transport).toHaveBeenLastCalledWith('https://store.steampowered.com/bundlelist/8383?l=english&cc=us', expect.anything());
+  expect(logs.some((message) => message.includes(deadProxy))).toBe(true);
+});
+
+test('BundleMasterClient raises bundle page concurrency while healthy and halves it on 5xx', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const appId = '8484';
+  const bundleIds = ['840', '841', '842', '843', '844', '845', '846', '847'];
+  const bundleListUrl = `https://store.steampowered.com/bundlelist/${appId}?l=english&cc=us`;
+  let failPages = false;
+  let inFlight = 0;
+  let peakInFlight = 0;
+
+  const transport = vi.fn(async (url: string) => {
+    if (url === bundleListUrl) {
+      return new Response(
+        bundleIds.map((id) => `<a href="https://store.steampowered.com/bundle/${id}"></a>`).join(''),
+        { status: 200 }
+      );
+    }
+    const match = url.match(/\/bundle\/(\d+)\?/);
+    if (!match) {
+      return new Response('Not found', { status: 404 });
+    }
+    inFlight += 1;
+    peakInFlight = Math.max(peakInFlight, inFlight);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    inFlight -= 1;
+    return failPages
+      ? new Response('Unavailable', { status: 503 })
+      : new Response(createBundlePage(`Bundle ${match[1]}`, appId, '849'), { status: 200 });
+  });
+
+  const client = new BundleMasterClient({
+    proxies: [],
+    transport,
+    bundleConcurrency: { initial: 1, min: 1, max: 4 },
+    retry: { maxAttempts: 1 },
+  });
+
+  await client.fetchBundleNames(appId);
+  expect(peakInFlight).toBeGreaterThan(1);
+  const grownLimit = client.getConcurrencyLimits().bundlePages;
+  expect(grownLimit).toBeGreaterThan(1);
+
+  failPages = true;
+  await client.fetchBundleNames(appId, { forceRefresh: true });
+  expect(client.getConcurrencyLimits().bundlePages).toBeLessThan(grownLimit);
+});
+
+test('BundleMasterClient falls back to default concurrency for non-finite limits', () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const client = new BundleMasterClient({
+    bundleConcurrency: Number.NaN,
+    reviewConcurrency: { initial: Number.POSITIVE_INFINITY, max: Number.NaN },
+  });
+  expect(client.getConcurrencyLimits()).toEqual({ bundlePages: 4, reviews: 1, appDetails: 1 });
+});
+
+test('BundleMasterClient tries rate-limited sources last until their window expires', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const limitedProxy = 'https://limited.example/';
+  const otherProxy = 'https://other.example/';
+  const transport = vi.fn(async (url: string) =>
+    url.startsWith(limitedProxy)
+      ? new Response('Too many requests', { status: 429, headers: { 'Retry-After': '60' } })
+      : new Response('<p>No bundles</p>', { status: 200 })
+  );
+  const client = new BundleMasterClient({
+    proxies: [limitedProxy, otherProxy],
+    transport,
+    retry: { maxAttempts: 1 },
+  });
+
+  await client.fetchBundleNames('8585');
+  await client.fetchBundleNames('8586');
+
+  expect(transport.mock.calls.map(([url]) => url)).toEqual([
+    `${limitedProxy}https://store.steampowered.com/bundlelist/8585?l=english&cc=us`,
+    `${otherProxy}https://store.steampowered.com/bundlelist/8585?l=english&cc=us`,
+    `${otherProxy}https://store.steampowered.com/bundlelist/8586?l=english&cc=us`,
+  ]);
+});
+
+test('fetchBundleNames retries transient statuses on the same URL with backoff', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const bundleListUrl = 'https://store.steampowered.com/bundlelist/8484?l=english&cc=us';
+  const statuses = [503, 502];
+  const transport = vi.fn(async (url: string) => {
+    const status = statuses.shift();
+    if (status) {
+      return new Response('Try again', { status, headers: status === 503 ? { 'Retry-After': '0' } : {} });
+    }
+    return url === bundleListUrl
+      ? new Response('<p>No bundles</p>', { status: 200 })
+      : new Response('Not found', { status: 404 });
+  });
+
+  const logs: Array<{ message: string; level?: string }> = [];
+  const client = new BundleMasterClient({ proxies: [], transport });
+  const bundles = await client.fetchBundleNames('8484', {
+    retry: { maxAttempts: 3, baseDelayMs: 1, jitter: 0 },
+    reporter: { log: (message, level) => logs.push({ message, level }) },
+  });
+
+  expect(bundles).toEqual([]);
+  expect(transport.mock.calls.map(([url]) => url)).toEqual([bundleListUrl, bundleListUrl, bundleListUrl]);
+  expect(logs.filter((entry) => entry.message.startsWith('Ponawiam pobieranie'))).toHaveLength(2);
+});
+
+test('review requests that keep answering 429 stay within maxAttempts and maxDelayMs', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const appId = '8494';
+  const reviewUrl =
+    'https://store.steampowered.com/appreviews/849?json=1&language=all&purchase_type=all&review_type=all&filter=all&num_per_page=0&l=english&cc=us';
+  const responses = new Map<string, string>([
+    [
+      'https://store.steampowered.com/bundlelist/8494?l=english&cc=us',
+      '<a href="https://store.steampowered.com/bundle/849"></a>',
+    ],
+    [
+      'https://store.steampowered.com/bundle/849?l=english&cc=us',
+      '<h2 class="pageheader">Busy Bundle</h2><a class="tab_item" data-ds-appid="849"><div class="tab_item_name">Busy Game</div></a>',
+    ],
+    [appDetailsUrl('849'), appDetailsJson('849')],
+  ]);
+  const createTransport = (retryAfter: string) =>
+    vi.fn(async (url: string) => {
+      if (url === reviewUrl) {
+        return new Response('Too many requests', { status: 429, headers: { 'Retry-After': retryAfter } });
+      }
+      const body = responses.get(url);
+      return body ? new Response(body, { status: 200 }) : new Response('Not found', { status: 404 });
+    });
+  const reviewCalls = (transport: ReturnType<typeof createTransport>) =>
+    transport.mock.calls.filter(([url]) => url === reviewUrl).length;
+
+  const shortWindow = createTransport('0.01');
+  const [bundle] = await new BundleMasterClient({ proxies: [], transport: shortWindow }).fetchBundleNames(appId, {
+    retry: { maxAttempts: 2 },
+  });
+  expect(bundle.games[0]).toMatchObject({ appId: '849', reviewCount: null });
+  expect(reviewCalls(shortWindow)).toBe(2);
+
+  // A window longer than maxDelayMs is not waited for at all.
+  const longWindow = createTransport('120');
+  await new BundleMasterClient({ proxies: [], transport: longWindow }).fetchBundleNames(appId, {
+    retry: { maxAttempts: 3, maxDelayMs: 1000 },
+  });
+  expect(reviewCalls(longWindow)).toBe(1);
+});
+
+test('fetchBundleNames retries truncated bodies and gives up after maxAttempts', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const transport = vi.fn(
+    async () => new Response('<p>partial', { status: 200, headers: { 'Content-Length': '4096' } })
+  );
+  const client = new BundleMasterClient({ proxies: [], transport });
+
+  await expect(
+    client.fetchBundleNames('8585', { retry: { maxAttempts: 2, baseDelayMs: 1 } })
+  ).rejects.toThrow(/truncated/);
+  expect(transport).toHaveBeenCalledTimes(2);
+});
+
+test('fetchBundleNames leaves network errors to the next candidate in the browser unless asked to retry', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const transport = vi.fn(async () => {
+    throw new TypeError('Failed to fetch');
+  });
+  const client = new BundleMasterClient({ proxies: [], transport });
+
+  // The test environment defines `window.document`, so the browser default applies.
+  await expect(client.fetchBundleNames('8588', { retry: { baseDelayMs: 1 } })).rejects.toThrow(/Failed to fetch/);
+  expect(transport).toHaveBeenCalledTimes(1);
+
+  await expect(
+    client.fetchBundleNames('8588', { retry: { baseDelayMs: 1, retryNetworkErrors: true } })
+  ).rejects.toThrow(/Failed to fetch/);
+  expect(transport).toHaveBeenCalledTimes(4);
+});
+
+test('fetchBundleNames abandons a hung candidate after the connect timeout', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const slowProxy = 'https://slow.example/';
+  const bundleListUrl = 'https://store.steampowered.com/bundlelist/8686?l=english&cc=us';
+  const transport = vi.fn((url: string, init?: RequestInit) => {
+    if (url.startsWith(slowProxy)) {
+      return new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+      });
+    }
+    return Promise.resolve(new Response('<p>No bundles</p>', { status: 200 }));
+  });
+
+  const logs: string[] = [];
+  const client = new BundleMasterClient({ proxies: [slowProxy], transport });
+  const bundles = await client.fetchBundleNames('8686', {
+    timeouts: { bundleList: { connectMs: 20 } },
+    reporter: { log: (message) => logs.push(message) },
+  });
+
+  expect(bundles).toEqual([]);
+  expect(transport.mock.calls.map(([url]) => url)).toEqual([slowProxy + bundleListUrl, bundleListUrl]);
+  expect(logs.some((message) => message.includes('przekroczyła limit czasu'))).toBe(true);
+});
+
+test('fetchBundleNames reports a body timeout when a response stalls mid-stream', async () => {
+  const { BundleMasterClient } = bundlesModule;
+
+  const transport = vi.fn(async (_url: string, init?: RequestInit) => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('<p>partial'));
+        init?.signal?.addEventListener('abort', () => controller.error(init.signal?.reason));
+      },
+    });
+    return new Response(stream, { status: 200 });
+  });
+
+  const client = new BundleMasterClient({ proxies: [], transport });
+  await expect(
+    client.fetchBundleNames('8787', { timeouts: { bundleList: { bodyMs: 20 } } })
+  ).rejects.toThrow(/Response body not received within 20 ms/);
+  expect(transport).toHaveBeenCalledTimes(1);
+});
+
+test('fetchBundleNames rejects invalid AppIDs with AppIdValidationError', async () => {
+  const { fetchBundleNames, AppIdValidationError } = bundlesModule;
+
+  await expect(fetchBundleNames('   ')).rejects.toBeInstanceOf(AppIdValidationError);
+  await expect(fetchBundleNames('abc')).rejects.toThrow(/must be numeric/);
+});
+
+test('fetchBundleNames throws SteamFetchError with structured attempts', async () => {
+  const { BundleMasterClient, SteamFetchError, SteamTimeoutError } = bundlesModule;
+
+  const brokenProxy = 'https://broken.example/';
+  const transport = vi.fn(async (url: string) => {
+    if (url.startsWith(brokenProxy)) {
+      throw new TypeError('fetch failed');
+    }
+    return new Response('<html>No such page</html>', { status: 404, statusText: 'Not Found' });
+  });
+  const client = new BundleMasterClient({ proxies: [brokenProxy], transport });
+
+  const error = await client.fetchBundleNames('8888').catch((reason: unknown) => reason);
+
+  expect(error).toBeInstanceOf(SteamFetchError);
+  const fetchError = error as InstanceType<typeof SteamFetchError>;
+  expect(fetchError.url).toBe('https://store.steampowered.com/bundlelist/8888?l=english&cc=us');
+  expect(fetchError.notFound).toBe(true);
+  expect(fetchError.allSourcesUnavailable).toBe(false);
+  expect(fetchError.attempts).toHaveLength(2);
+  expect(fetchError.attempts[0]).toMatchObject({
+    url: `${brokenProxy}https://store.steampowered.com/bundlelist/8888?l=english&cc=us`,
+    source: brokenProxy,
+    error: expect.any(TypeError),
+  });
+  expect(fetchError.attempts[0].status).toBeUndefined();
+  expect(fetchError.attempts[1]).toMatchObject({
+    url: 'https://store.steampowered.com/bundlelist/8888?l=english&cc=us',
+    source: 'direct',
+    status: 404,
+    bodyExcerpt: '<html>No such page</html>',
+  });
+  expect(fetchError.attempts.some((attempt) => attempt.error instanceof SteamTimeoutError)).toBe(false);
+
+  // A proxy answering 5xx counts as unavailable just like one that never answered.
+  const unavailable = new SteamFetchError(fetchError.url, fetchError.resource, [
+    fetchError.attempts[0],
+    { ...fetchError.attempts[1], status: 502 },
+  ]);
+  expect(unavailable.allSourcesUnavailable).toBe(true);
+});
+
+test('fetchBundleNames throws SteamRateLimitError when Steam keeps answering 429', async () => {
+  const { BundleMasterClient, SteamRateLimitError } = bundlesModule;
+
+  const transport = vi.fn(
+    async () => new Response('Too many requests', { status: 429, headers: { 'Retry-After': '120' } })
+  );
+  const client = new BundleMasterClient({ proxies: [], transport });
+
+  const error = await client.fetchBundleNames('8989').catch((reason: unknown) => reason);
+
+  expect(error).toBeInstanceOf(SteamRateLimitError);
+  expect((error as InstanceType<typeof SteamRateLimitError>).retryAfterMs).toBe(120_000);
+  expect(transport).toHaveBeenCalledTimes(1);
+});
+
+test('extractBundleIdsFromHtml throws SteamParseError for a malformed bundle list', () => {
+  const { extractBundleIdsFromHtml, SteamParseError } = bundlesModule;
+
+  expect(() => extractBundleIdsFromHtml('<div data-bundle_list="[1, 2"></div>')).toThrow(SteamParseError);
+});
@@ -1,9 +1,66 @@
+import {
+  AppIdValidationError,
+  BundleFetchAbortError,
+  SteamFetchError,
+  SteamParseError,
+  SteamRateLimitError,
+  SteamTimeoutError,
+  describeError,
+  excerptBody,
+  type AttemptRecord,
+} from './errors';
+import {
+  DEFAULT_PARSER_STRATEGIES,
+  completePricing,
+  parseBundleGames,
+  parseBundleList,
+  parseBundlePricing,
+  parseBundleTitle,
+  type BundleParserStrategy,
+  type ParseResult,
+} from './parsers';
+import {
+  countMatches,
+  describePageType,
+  describeParseDiagnostics,
+  detectPageType,
+  type PageType,
+  type ParseDiagnostics,
+} from './diagnostics';
+import { itemTypeFromAppDetails } from './itemTypes';
+import { currencyForCountry, subtractMoney, sumMoney, withCurrency } from './money';
+import { computeTagProfile, matchTagProfile } from './tags';
+import type { ResponseCacheStore } from './responseCache';
+
+export {
+  AppIdValidationError,
+  BundleFetchAbortError,
+  BundleMasterError,
+  SteamFetchError,
+  SteamParseError,
+  SteamRateLimitError,
+  SteamTimeoutError,
+  type AttemptRecord,
+} from './errors';
+export {
+  DEFAULT_PARSER_STRATEGIES,
+  domParserStrategy,
+  markdownParserStrategy,
+  regexParserStrategy,
+  type BundleParserStrategy,
+  type ParseResult,
+} from './parsers';
+export { currencyForCountry, parseMoneyText } from './money';
+export { detectPageType, type PageType, type ParseDiagnostics } from './diagnostics';
+export { computeTagProfile, matchTagProfile } from './tags';
+
 const BUNDLE_LIST_URL = 'https://store.steampowered.com/bundlelist/';
 const BUNDLE_PAGE_URL = 'https://store.steampowered.com/bundle/';
+const PACKAGE_PAGE_URL = 'https://store.steampowered.com/sub/';
 const APP_REVIEWS_URL = 'https://store.steampowered.com/appreviews/';
-const BUNDLE_LINK_REGEX = /https?:\/\/store\.steampowered\.com\/bundle\/(\d+)/gi;
-const BUNDLE_ITEM_REGEX =
-  /<a\b([^>]*?)data-ds-appid="(\d+)"([^>]*)>([\s\S]*?)<\/a>/gi;
+const APP_DETAILS_URL = 'https://store.steampowered.com/api/appdetails';
+const BUNDLE_LINK_REGEX = /https?:\/\/store\.steampowered\.com\/(bundle|sub)\/(\d+)/gi;
+const PACKAGE_ID_ATTRIBUTE_REGEX = /data-ds-packageid="(\d+)"/gi;
 
 function isBrowserRuntime(): boolean {
   return typeof window !== 'undefined' && typeof window.document !== 'undefined';
@@ -28,22 +85,91 @@ const runtimeProxy = (() => {
 
 const FALLBACK_PROXIES = ['https://r.jina.ai/', 'https://cors.isomorphic-git.org/'].map(normalizeProxy);
 
-const TITLE_REGEX = /<span class="title">([^<]+)<\/span>/i;
-const BUNDLE_ANCHOR_REGEX = /<a[^>]*data-ds-bundleid="(\d+)"[^>]*data-ds-bundle-data="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi;
-
 export interface BundleGameInfo {
   appId: string;
   name: string | null;
   imageUrl: string | null;
   reviewCount: number | null;
+  // Rounded, for display; ratings use the raw counts below when the appreviews endpoint supplied them.
   positiveReviewPercent: number | null;
-  priceUsd: number | null;
+  positiveReviewCount: number | null;
+  negativeReviewCount: number | null;
+  price: Money | null;
+  // Null when neither the markup nor appdetails told what the item is.
+  itemType: BundleItemType | null;
+  // Null when the page did not list platforms for the item.
+  platforms: BundlePlatform[] | null;
+  deckCompatibility: DeckCompatibility | null;
+  vrSupport: VrSupport | null;
+  // From `data-ds-tagids`; null when the page did not carry tags for the item.
+  tags: BundleGameTag[] | null;
+  // Present once the item's reviews were queried from the appreviews endpoint.
+  reviews?: GameReviews;
+}
+
+export interface BundleGameTag {
+  id: number;
+  // Null for tags neither the page nor the bundled dictionary could name.
+  name: string | null;
+}
+
+export interface TagProfileEntry {
+  id: number;
+  name: string | null;
+  count: number;
+  // Fraction of the bundle's tagged items that carry the tag.
+  share: number;
+}
+
+export type BundleItemType = 'game' | 'dlc' | 'soundtrack' | 'demo' | 'tool';
+export type BundlePlatform = 'windows' | 'mac' | 'linux';
+export type DeckCompatibility = 'verified' | 'playable' | 'unsupported' | 'unknown';
+export type VrSupport = 'supported' | 'required';
+
+export interface Money {
+  amount: number;
+  // ISO 4217 code, or null when neither the page nor the region revealed it.
+  currency: string | null;
+}
+
+export interface SteamRegion {
+  countryCode: string;
+  language: string;
+}
+
+export interface BundlePricing {
+  finalPrice: Money | null;
+  // Sum of the individual prices before the bundle discount.
+  originalTotal: Money | null;
+  discountPercent: number | null;
+  savings: Money | null;
+}
+
+export type BundleKind = 'bundle' | 'package';
+
+export interface BundleRef {
+  kind: BundleKind;
+  id: string;
 }
 
 export interface BundleInfo {
+  // Bundles (`/bundle/{id}`) and packages (`/sub/{id}`) have separate id spaces.
+  kind: BundleKind;
   id: string;
   name: string;
   games: BundleGameInfo[];
+  // Missing when the page exposed no pricing at all.
+  pricing?: BundlePricing;
+  // Parser strategies that produced the title and the game list (null when no games were found).
+  parsedBy?: { title: string; games: string | null };
+  // Tags of the other items, most common first; missing when none of them carried tags.
+  tagProfile?: TagProfileEntry[];
+  // How well the profile matches the analysed games' own tags (0–1), when the page listed them.
+  tagMatch?: number | null;
+  // Analysed titles the bundle contains; only set when several AppIDs are analysed together.
+  ownAppIds?: string[];
+  // The analysed titles themselves, kept out of `games` but still part of what the bundle costs.
+  ownGames?: BundleGameInfo[];
 }
 
 export type BundleFetchLogLevel = 'info' | 'success' | 'warning' | 'error';
@@ -66,522 +192,1334 @@ export interface BundleFetchDetailEntry {
   body: string;
 }
 
+export interface ProxyHealthStats {
+  source: string;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  averageLatencyMs: number | null;
+  disabledUntil: number | null;
+}
+
 export interface BundleFetchReporter {
   log(message: string, level?: BundleFetchLogLevel): void;
   detail?(entry: BundleFetchDetailEntry): void;
   progress?(update: BundleFetchProgress): void;
   bundles?(bundles: BundleInfo[], context: BundleUpdateContext): void;
+  proxyStats?(stats: ProxyHealthStats[]): void;
 }
 
+/**
+ * Performs a single HTTP request. Any `fetch`-compatible function works, which lets callers
+ * plug in recorded fixtures, a keep-alive agent or a custom egress proxy.
+ */
+export type BundleFetchTransport = (url: string, init?: RequestInit) => Promise<Response>;
+
 export interface BundleFetchOptions {
+  // Override the client's region for this run, e.g. `pl` / `polish`.
+  countryCode?: string;
+  language?: string;
   reporter?: BundleFetchReporter;
+  signal?: AbortSignal;
+  transport?: BundleFetchTransport;
+  // Bypasses cached responses; fresh responses are still written back to the cache.
+  forceRefresh?: boolean;
+  retry?: RetryPolicy;
+  timeouts?: RequestTimeoutOptions;
+  // Merged over the client's review options for this run.
+  reviews?: ReviewSummaryOptions;
+}
+
+export interface RequestTimeouts {
+  // Time allowed until response headers arrive.
+  connectMs?: number;
+  // Time allowed for reading the response body once headers have arrived.
+  bodyMs?: number;
+}
+
+export type RequestTimeoutOptions = Partial<Record<SteamResourceKind | 'default', RequestTimeouts>>;
+
+const DEFAULT_TIMEOUTS: Record<SteamResourceKind | 'default', Required<RequestTimeouts>> = {
+  bundleList: { connectMs: 15_000, bodyMs: 30_000 },
+  bundlePage: { connectMs: 15_000, bodyMs: 30_000 },
+  reviews: { connectMs: 10_000, bodyMs: 15_000 },
+  appDetails: { connectMs: 10_000, bodyMs: 15_000 },
+  default: { connectMs: 15_000, bodyMs: 30_000 },
+};
+
+export interface RetryPolicy {
+  // Total attempts per candidate URL, including the first one.
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Fraction of the computed delay that is randomised in both directions (0–1).
+  jitter?: number;
+  retryableStatuses?: number[];
+  // Defaults to on outside the browser and off in it: there a CORS rejection is indistinguishable from a
+  // network reset and will never succeed on retry, so each blocked URL would only burn the backoff before
+  // the next proxy is tried. Truncated bodies are retried either way.
+  retryNetworkErrors?: boolean;
+}
+
+const DEFAULT_RETRY_POLICY: Required<Omit<RetryPolicy, 'retryNetworkErrors'>> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  jitter: 0.3,
+  retryableStatuses: [408, 425, 429, 500, 502, 503, 504],
+};
+
+export type SteamResourceKind = 'bundleList' | 'bundlePage' | 'reviews' | 'appDetails';
+
+export interface BundleResponseCacheOptions {
+  store: ResponseCacheStore;
+  ttlMs?: Partial<Record<SteamResourceKind, number>>;
 }
 
-interface GameReviewSummary {
+const UNCACHEABLE_PAGE_TYPES = new Set<PageType>(['errorPage', 'ageGate', 'empty']);
+
+const DEFAULT_CACHE_TTL_MS: Record<SteamResourceKind, number> = {
+  bundleList: 6 * 60 * 60 * 1000,
+  bundlePage: 24 * 60 * 60 * 1000,
+  reviews: 12 * 60 * 60 * 1000,
+  appDetails: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Resolved lazily so that replacing the global `fetch` after import still takes effect.
+const defaultTransport: BundleFetchTransport = (url, init) => fetch(url, init);
+
+export interface ReviewSummary {
   reviewCount: number | null;
   positiveReviewPercent: number | null;
+  positiveReviewCount: number | null;
+  negativeReviewCount: number | null;
+  // Steam's `review_score` (1–9) and its label, e.g. 8 / "Very Positive".
+  score: number | null;
+  scoreDescription: string | null;
 }
 
-const reviewSummaryCache = new Map<string, GameReviewSummary | null>();
-const reviewSummaryPromises = new Map<string, Promise<GameReviewSummary | null>>();
-const reviewFetchLimiter = createLimiter(1);
-let reviewRateLimitUntil = 0;
+export interface GameReviews {
+  overall: ReviewSummary | null;
+  // Present when requested through `ReviewSummaryOptions`.
+  recent?: ReviewSummary | null;
+  byLanguage?: Record<string, ReviewSummary | null>;
+}
 
-export async function fetchBundleNames(
-  appId: string,
-  options: BundleFetchOptions = {}
-): Promise<BundleInfo[]> {
-  const cleanId = appId.trim();
-  if (!cleanId) {
-    throw new Error('AppID is required');
-  }
+export interface ReviewSummaryOptions {
+  // Also summarise the last 30 days.
+  recent?: boolean;
+  // Steam language names, e.g. `polish`.
+  languages?: string[];
+}
 
-  const reporter = options.reporter;
-  reporter?.log(`Normalizuję AppID: ${cleanId}`);
-  reporter?.progress?.({
-    current: 0,
-    total: 1,
-    message: 'Pobieranie listy bundli…',
-  });
+interface ReviewQuery {
+  language?: string;
+  dayRange?: number;
+}
 
-  const bundleIds = await fetchBundleIds(cleanId, reporter);
-  if (!bundleIds.length) {
-    reporter?.log('Nie znaleziono żadnych bundli powiązanych z tym AppID na stronie listy.', 'warning');
-    reporter?.progress?.({ current: 1, total: 1, message: 'Zakończono – brak bundli.' });
-    return [];
-  }
+const RECENT_REVIEW_DAYS = 30;
+
+export interface BundleMasterClientOptions {
+  // Proxy prefixes tried before the direct URL; defaults to the built-in list in the browser only.
+  proxies?: string[];
+  // Region used when a run sets none; `english` / `us` by default.
+  language?: string;
+  countryCode?: string;
+  transport?: BundleFetchTransport;
+  // A number fixes the limit; an object lets it adapt between `min` and `max`.
+  bundleConcurrency?: number | AdaptiveConcurrencyOptions;
+  reviewConcurrency?: number | AdaptiveConcurrencyOptions;
+  appDetailsConcurrency?: number | AdaptiveConcurrencyOptions;
+  cache?: BundleResponseCacheOptions;
+  proxyHealth?: ProxyHealthOptions;
+  retry?: RetryPolicy;
+  timeouts?: RequestTimeoutOptions;
+  // Tried in order until one of them understands the page; defaults to DOM, regex, then markdown.
+  parsers?: BundleParserStrategy[];
+  reviews?: ReviewSummaryOptions;
+}
 
-  reporter?.log(`Rozpoczynam pobieranie metadanych dla ${bundleIds.length} bundli.`);
-  const totalProgress = 1 + bundleIds.length;
-  let completedBundles = 0;
-  reporter?.progress?.({
-    current: 1,
-    total: totalProgress,
-    message: 'Przetwarzanie listy bundli…',
-  });
+export interface AdaptiveConcurrencyOptions {
+  initial?: number;
+  min?: number;
+  max?: number;
+}
 
-  const bundleOrder = new Map<string, number>();
-  bundleIds.forEach((bundleId, index) => {
-    bundleOrder.set(bundleId, index);
-  });
+const DEFAULT_BUNDLE_CONCURRENCY: Required<AdaptiveConcurrencyOptions> = { initial: 4, min: 1, max: 8 };
+const DEFAULT_REVIEW_CONCURRENCY: Required<AdaptiveConcurrencyOptions> = { initial: 1, min: 1, max: 3 };
+const DEFAULT_APP_DETAILS_CONCURRENCY: Required<AdaptiveConcurrencyOptions> = { initial: 1, min: 1, max: 3 };
 
-  const interimBundles = new Map<string, BundleInfo>();
-  const emitBundles = (list: BundleInfo[], isFinal: boolean) => {
-    if (!reporter?.bundles) {
-      return;
-    }
-    const sorted = [...list].sort((a, b) => {
-      const orderA = bundleOrder.get(a.id) ?? Number.MAX_SAFE_INTEGER;
-      const orderB = bundleOrder.get(b.id) ?? Number.MAX_SAFE_INTEGER;
-      return orderA - orderB;
-    });
-    reporter.bundles(sorted, { isFinal });
-  };
+export interface ProxyHealthOptions {
+  // Consecutive failures after which a source is skipped for `cooldownMs`.
+  failureThreshold?: number;
+  cooldownMs?: number;
+}
 
-  const bundles = await fetchBundleMetadata(bundleIds, reporter, {
-    onProgress: () => {
-      completedBundles += 1;
-      reporter?.progress?.({
-        current: 1 + completedBundles,
-        total: totalProgress,
-        message: `Pobieranie szczegółów bundli: ${completedBundles}/${bundleIds.length}`,
-      });
-    },
-    onBundle: (bundle) => {
-      if (!bundle || !bundle.name.trim()) {
-        return;
-      }
-      const sanitizedGames = deduplicateGames(bundle.games).filter((game) => game.appId !== cleanId);
-      const sanitizedBundle: BundleInfo = {
-        ...bundle,
-        games: sanitizedGames,
-      };
-      interimBundles.set(sanitizedBundle.id, sanitizedBundle);
-      if (interimBundles.size > 0) {
-        emitBundles(Array.from(interimBundles.values()), false);
-      }
-    },
-  });
+// Failed lookups are not cacheable, so that the next run asks Steam again.
+interface LookupOutcome<T> {
+  value: T;
+  cacheable: boolean;
+}
 
-  const filtered = bundles.filter((bundle): bundle is BundleInfo => Boolean(bundle?.name.trim()));
-  if (filtered.length !== bundles.length) {
-    reporter?.log(
-      `Odrzucono ${bundles.length - filtered.length} bundli bez nazwy po pobraniu metadanych.`,
-      'warning'
+// Each client owns its review caches, limiters and rate-limit state.
+export class BundleMasterClient {
+  private readonly proxies: string[] | undefined;
+  private readonly language: string;
+  private readonly countryCode: string;
+  private readonly transport: BundleFetchTransport;
+  private readonly bundleLimiter: AdaptiveLimiter;
+  private readonly responseCache: ResponseCacheStore | undefined;
+  private readonly cacheTtlMs: Record<SteamResourceKind, number>;
+  private readonly reviewSummaryCache = new Map<string, ReviewSummary | null>();
+  private readonly reviewSummaryPromises = new Map<string, Promise<LookupOutcome<ReviewSummary | null>>>();
+  private readonly reviewOptions: ReviewSummaryOptions;
+  private readonly itemTypeCache = new Map<string, BundleItemType | null>();
+  private readonly itemTypePromises = new Map<string, Promise<LookupOutcome<BundleItemType | null>>>();
+  private readonly reviewLimiter: AdaptiveLimiter;
+  private readonly appDetailsLimiter: AdaptiveLimiter;
+  private readonly proxyHealth: ProxyHealthTracker;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly timeouts: RequestTimeoutOptions;
+  // Rate-limit windows per source (proxy prefix or `direct`), as each has its own egress IP.
+  private readonly rateLimitWindows = new Map<string, number>();
+  private readonly parsers: readonly BundleParserStrategy[];
+
+  constructor(options: BundleMasterClientOptions = {}) {
+    this.proxies = options.proxies?.map(normalizeProxy).filter(Boolean);
+    this.language = options.language?.trim() || 'english';
+    this.countryCode = options.countryCode?.trim() || 'us';
+    this.transport = options.transport ?? defaultTransport;
+    this.bundleLimiter = createAdaptiveLimiter(
+      resolveConcurrency(options.bundleConcurrency, DEFAULT_BUNDLE_CONCURRENCY)
     );
+    this.reviewLimiter = createAdaptiveLimiter(
+      resolveConcurrency(options.reviewConcurrency, DEFAULT_REVIEW_CONCURRENCY)
+    );
+    this.appDetailsLimiter = createAdaptiveLimiter(
+      resolveConcurrency(options.appDetailsConcurrency, DEFAULT_APP_DETAILS_CONCURRENCY)
+    );
+    this.responseCache = options.cache?.store;
+    this.cacheTtlMs = { ...DEFAULT_CACHE_TTL_MS, ...options.cache?.ttlMs };
+    this.proxyHealth = createProxyHealthTracker(options.proxyHealth);
+    this.retryPolicy = options.retry ?? {};
+    this.timeouts = options.timeouts ?? {};
+    this.parsers = options.parsers?.length ? options.parsers : DEFAULT_PARSER_STRATEGIES;
+    this.reviewOptions = options.reviews ?? {};
   }
 
-  const unique = deduplicateBundles(filtered);
-  if (unique.length !== filtered.length) {
-    reporter?.log(
-      `Usunięto ${filtered.length - unique.length} zduplikowanych wpisów bundli po scaleniu wyników.`,
-      'warning'
-    );
+  getProxyStats(): ProxyHealthStats[] {
+    return this.proxyHealth.snapshot();
   }
 
-  const sanitized = unique
-    .map((bundle) => ({
-      ...bundle,
-      games: deduplicateGames(bundle.games).filter((game) => game.appId !== cleanId),
-    }))
-    .sort((a, b) => {
-      const orderA = bundleOrder.get(a.id) ?? Number.MAX_SAFE_INTEGER;
-      const orderB = bundleOrder.get(b.id) ?? Number.MAX_SAFE_INTEGER;
-      return orderA - orderB;
-    });
+  getConcurrencyLimits(): { bundlePages: number; reviews: number; appDetails: number } {
+    return {
+      bundlePages: this.bundleLimiter.limit,
+      reviews: this.reviewLimiter.limit,
+      appDetails: this.appDetailsLimiter.limit,
+    };
+  }
 
-  reporter?.log(`Zakończono pobieranie bundli. Łącznie ${sanitized.length} unikalnych pozycji.`, 'success');
-  reporter?.progress?.({
-    current: totalProgress,
-    total: totalProgress,
-    message: 'Zakończono pobieranie bundli.',
-  });
-  emitBundles(sanitized, true);
-  return sanitized;
-}
+  async clearCaches(): Promise<void> {
+    this.reviewSummaryCache.clear();
+    this.itemTypeCache.clear();
+    this.rateLimitWindows.clear();
+    await this.responseCache?.clear();
+  }
+
+  /**
+   * Runs `fetchBundleNames` once per region, one after another, so that the results can be
+   * compared with `compareBundlesAcrossRegions`.
+   */
+  async fetchBundleNamesByRegion(
+    appIds: string | string[],
+    regions: Array<Partial<SteamRegion> & { countryCode: string }>,
+    options: BundleFetchOptions = {},
+  ): Promise<RegionalBundleResult[]> {
+    const results: RegionalBundleResult[] = [];
+    for (const region of regions) {
+      const resolved = this.resolveRegion({ ...options, ...region });
+      options.reporter?.log(`Region ${resolved.countryCode.toUpperCase()} (${resolved.language}).`);
+      const bundles = await this.fetchBundleNamesForApps(Array.isArray(appIds) ? appIds : [appIds], {
+        ...options,
+        ...resolved,
+      });
+      results.push({ region: resolved, bundles });
+    }
+    return results;
+  }
 
-export function extractBundlesFromHtml(html: string, appId: string): BundleInfo[] {
-  BUNDLE_ANCHOR_REGEX.lastIndex = 0;
-  const bundles: BundleInfo[] = [];
-  const numericId = Number(appId);
-  if (!Number.isFinite(numericId)) {
-    return bundles;
+  extractBundlesFromHtml(html: string, appId: string): BundleInfo[] {
+    return deduplicateBundles(parseBundleList(html, appId, this.parsers).value);
   }
 
-  let match: RegExpExecArray | null;
-  while ((match = BUNDLE_ANCHOR_REGEX.exec(html)) !== null) {
-    const [, bundleId, encodedData, anchorHtml] = match;
-    const decodedData = decodeHtmlEntities(encodedData);
-    let includesApp = false;
+  extractBundleGamesFromHtml(html: string): BundleGameInfo[] {
+    return parseBundleGames(html, this.parsers).value;
+  }
 
-    try {
-      const data = JSON.parse(decodedData);
-      if (Array.isArray(data?.m_rgItems)) {
-        includesApp = data.m_rgItems.some((item: any) => {
-          const apps = Array.isArray(item?.m_rgIncludedAppIDs) ? item.m_rgIncludedAppIDs : [];
-          return apps.includes(numericId);
-        });
-      }
-    } catch (error) {
-      continue;
+  extractBundleIdsFromHtml(html: string): string[] {
+    return extractBundleIdsFromHtml(html);
+  }
+
+  async fetchBundleNames(
+    appId: string,
+    options: BundleFetchOptions = {}
+  ): Promise<BundleInfo[]> {
+    return this.fetchBundleNamesForApps([appId], options);
+  }
+
+  /**
+   * Analyses a portfolio of titles at once. Bundle pages linked from several lists are fetched
+   * only once, and every title of the portfolio is left out of the partner lists.
+   */
+  async fetchBundleNamesForApps(
+    appIds: string[],
+    options: BundleFetchOptions = {}
+  ): Promise<BundleInfo[]> {
+    const cleanIds = Array.from(new Set(appIds.map(normalizeAppId)));
+    if (!cleanIds.length) {
+      throw new AppIdValidationError('', 'AppID is required');
     }
 
-    if (!includesApp) {
-      continue;
+    const { reporter, signal } = options;
+    throwIfAborted(signal);
+    reporter?.log(`Normalizuję AppID: ${cleanIds.join(', ')}`);
+    reporter?.progress?.({
+      current: 0,
+      total: cleanIds.length,
+      message: 'Pobieranie listy bundli…',
+    });
+
+    const refLists = await this.fetchBundleRefLists(cleanIds, options);
+    const refsByKey = new Map<string, BundleRef>();
+    for (const ref of refLists.flat()) {
+      refsByKey.set(bundleKey(ref), ref);
     }
+    const bundleRefs = Array.from(refsByKey.values());
+    const listCount = cleanIds.length;
+    if (!bundleRefs.length) {
+      reporter?.log(
+        listCount > 1
+          ? 'Nie znaleziono żadnych bundli powiązanych z tymi AppID na stronach list.'
+          : 'Nie znaleziono żadnych bundli powiązanych z tym AppID na stronie listy.',
+        'warning'
+      );
+      reporter?.progress?.({ current: listCount, total: listCount, message: 'Zakończono – brak bundli.' });
+      return [];
+    }
+
+    reporter?.log(`Rozpoczynam pobieranie metadanych dla ${bundleRefs.length} bundli i pakietów.`);
+    const totalProgress = listCount + bundleRefs.length;
+    let completedBundles = 0;
+    reporter?.progress?.({
+      current: listCount,
+      total: totalProgress,
+      message: 'Przetwarzanie listy bundli…',
+    });
+
+    const bundleOrder = new Map<string, number>();
+    bundleRefs.forEach((ref, index) => {
+      bundleOrder.set(bundleKey(ref), index);
+    });
 
-    const titleMatch = TITLE_REGEX.exec(anchorHtml);
-    if (!titleMatch) {
-      continue;
+    const interimBundles = new Map<string, BundleInfo>();
+    const emitBundles = (list: BundleInfo[], isFinal: boolean) => {
+      if (!reporter?.bundles) {
+        return;
+      }
+      const sorted = [...list].sort((a, b) => {
+        const orderA = bundleOrder.get(bundleKey(a)) ?? Number.MAX_SAFE_INTEGER;
+        const orderB = bundleOrder.get(bundleKey(b)) ?? Number.MAX_SAFE_INTEGER;
+        return orderA - orderB;
+      });
+      reporter.bundles(sorted, { isFinal });
+    };
+
+    const bundles = await this.fetchBundleMetadata(bundleRefs, options, {
+      onProgress: () => {
+        completedBundles += 1;
+        reporter?.progress?.({
+          current: listCount + completedBundles,
+          total: totalProgress,
+          message: `Pobieranie szczegółów bundli: ${completedBundles}/${bundleRefs.length}`,
+        });
+      },
+      onBundle: (bundle) => {
+        if (!bundle || !bundle.name.trim()) {
+          return;
+        }
+        const sanitizedBundle = withoutOwnGames(bundle, cleanIds);
+        interimBundles.set(bundleKey(sanitizedBundle), sanitizedBundle);
+        if (interimBundles.size > 0) {
+          emitBundles(Array.from(interimBundles.values()), false);
+        }
+      },
+    });
+
+    const filtered = bundles.filter((bundle): bundle is BundleInfo => Boolean(bundle?.name.trim()));
+    if (filtered.length !== bundles.length) {
+      reporter?.log(
+        `Odrzucono ${bundles.length - filtered.length} bundli bez nazwy po pobraniu metadanych.`,
+        'warning'
+      );
     }
-    const name = decodeHtmlEntities(titleMatch[1]).trim();
-    if (!name) {
-      continue;
+
+    const unique = deduplicateBundles(filtered);
+    if (unique.length !== filtered.length) {
+      reporter?.log(
+        `Usunięto ${filtered.length - unique.length} zduplikowanych wpisów bundli po scaleniu wyników.`,
+        'warning'
+      );
     }
 
-    bundles.push({ id: bundleId, name, games: [] });
+    const sanitized = unique
+      .map((bundle) => withoutOwnGames(bundle, cleanIds))
+      .sort((a, b) => {
+        const orderA = bundleOrder.get(bundleKey(a)) ?? Number.MAX_SAFE_INTEGER;
+        const orderB = bundleOrder.get(bundleKey(b)) ?? Number.MAX_SAFE_INTEGER;
+        return orderA - orderB;
+      });
+
+    reporter?.log(`Zakończono pobieranie bundli. Łącznie ${sanitized.length} unikalnych pozycji.`, 'success');
+    reporter?.progress?.({
+      current: totalProgress,
+      total: totalProgress,
+      message: 'Zakończono pobieranie bundli.',
+    });
+    emitBundles(sanitized, true);
+    return sanitized;
   }
 
-  return deduplicateBundles(bundles);
-}
+  private resolveRegion(options: BundleFetchOptions): SteamRegion {
+    return {
+      countryCode: options.countryCode?.trim().toLowerCase() || this.countryCode,
+      language: options.language?.trim().toLowerCase() || this.language,
+    };
+  }
 
-async function fetchBundleIds(appId: string, reporter?: BundleFetchReporter): Promise<string[]> {
-  const url = `${BUNDLE_LIST_URL}${encodeURIComponent(appId)}`;
-  const { body } = await fetchTextFromSteam(url, 'listy bundli', reporter, {
-    section: 'bundles',
-  });
-  const bundleIds = extractBundleIdsFromHtml(body);
-  reporter?.log(
-    `Wyodrębniono ${bundleIds.length} identyfikatorów bundli z kodu HTML listy.`
-  );
-  if (!bundleIds.length) {
+  private regionQuery(options: BundleFetchOptions): string {
+    const { countryCode, language } = this.resolveRegion(options);
+    return `l=${encodeURIComponent(language)}&cc=${encodeURIComponent(countryCode)}`;
+  }
+
+  /**
+   * Fetches the bundle list of every AppID. A failing list is reported and skipped, unless no
+   * list could be fetched at all.
+   */
+  private async fetchBundleRefLists(appIds: string[], options: BundleFetchOptions): Promise<BundleRef[][]> {
+    const { reporter, signal } = options;
+    const failures: unknown[] = [];
+    let completedLists = 0;
+    const refLists = await Promise.all(
+      appIds.map((appId) =>
+        this.bundleLimiter.run(async () => {
+          try {
+            return await this.fetchBundleRefs(appId, options);
+          } catch (error) {
+            if (isAbortError(error)) {
+              throw error;
+            }
+            failures.push(error);
+            reporter?.log(
+              `Nie udało się pobrać listy bundli dla AppID ${appId}: ${describeError(error)}.`,
+              'error'
+            );
+            reporter?.detail?.({
+              section: 'bundles',
+              title: `Lista bundli pominięta (AppID ${appId})`,
+              body: describeError(error),
+            });
+            return [];
+          } finally {
+            completedLists += 1;
+            if (completedLists < appIds.length) {
+              reporter?.progress?.({
+                current: completedLists,
+                total: appIds.length,
+                message: `Pobieranie list bundli: ${completedLists}/${appIds.length}`,
+              });
+            }
+          }
+        }, signal)
+      )
+    );
+    if (failures.length === appIds.length) {
+      throw failures[0];
+    }
+    return refLists;
+  }
+
+  private async fetchBundleRefs(appId: string, options: BundleFetchOptions = {}): Promise<BundleRef[]> {
+    const { reporter, signal, transport, forceRefresh, retry, timeouts } = options;
+    const url = `${BUNDLE_LIST_URL}${encodeURIComponent(appId)}?${this.regionQuery(options)}`;
+    const { body } = await this.fetchTextFromSteam(url, 'listy bundli', reporter, {
+      section: 'bundles',
+      kind: 'bundleList',
+      signal,
+      transport,
+      forceRefresh,
+      retry,
+      timeouts,
+    });
+    const { value: bundleRefs, diagnostics } = parseBundleRefs(body);
+    reporter?.detail?.({
+      section: 'bundles',
+      title: 'Diagnostyka parsera (lista bundli)',
+      body: describeParseDiagnostics('Identyfikatory bundli', diagnostics),
+    });
+    const packageCount = bundleRefs.filter((ref) => ref.kind === 'package').length;
     reporter?.log(
-      'Strona listy bundli nie zawierała żadnych identyfikatorów powiązanych bundli.',
-      'warning'
+      `Wyodrębniono ${bundleRefs.length - packageCount} identyfikatorów bundli i ${packageCount} pakietów z kodu HTML listy.`
     );
-    return [];
-  }
-
-  return bundleIds;
-}
-
-interface BundleMetadataCallbacks {
-  onProgress?: () => void;
-  onBundle?: (bundle: BundleInfo | null) => void;
-}
+    if (!bundleRefs.length) {
+      reporter?.log(
+        'Strona listy bundli nie zawierała żadnych identyfikatorów powiązanych bundli ' +
+          `(typ strony: ${describePageType(diagnostics.pageType)}).`,
+        'warning'
+      );
+      return [];
+    }
 
-async function fetchBundleMetadata(
-  bundleIds: string[],
-  reporter?: BundleFetchReporter,
-  callbacks: BundleMetadataCallbacks = {},
-): Promise<(BundleInfo | null)[]> {
-  if (!bundleIds.length) {
-    return [];
+    return bundleRefs;
   }
 
-  const limiter = createLimiter(4);
-  const { onProgress, onBundle } = callbacks;
+  private async fetchBundleMetadata(
+    bundleRefs: BundleRef[],
+    options: BundleFetchOptions = {},
+    callbacks: BundleMetadataCallbacks = {},
+  ): Promise<(BundleInfo | null)[]> {
+    if (!bundleRefs.length) {
+      return [];
+    }
 
-  return Promise.all(
-    bundleIds.map((bundleId) =>
-      limiter(async () => {
-        let result: BundleInfo | null = null;
-        try {
-          result = await fetchBundleDetails(bundleId, reporter);
-          if (!result) {
+    const { reporter, signal } = options;
+    const limiter = this.bundleLimiter.run;
+    const { onProgress, onBundle } = callbacks;
+
+    return Promise.all(
+      bundleRefs.map((ref) =>
+        limiter(async () => {
+          let result: BundleInfo | null = null;
+          try {
+            result =
+              ref.kind === 'package'
+                ? await this.fetchPackageDetails(ref.id, options)
+                : await this.fetchBundleDetails(ref.id, options);
+            if (!result) {
+              reporter?.log(
+                `Nie udało się ustalić nazwy ${describeRef(ref)} – brak nagłówka na stronie.`,
+                'warning'
+              );
+              return null;
+            }
             reporter?.log(
-              `Nie udało się ustalić nazwy bundla ${bundleId} – brak nagłówka na stronie.`,
-              'warning'
+              `Zidentyfikowano ${describeRef(ref)}: ${result.name} (gry: ${result.games.length}, ` +
+                `parser: ${describeParsedBy(result.parsedBy)}).`,
+              'success'
+            );
+            return result;
+          } catch (error) {
+            if (isAbortError(error)) {
+              throw error;
+            }
+            reporter?.log(
+              `Nie udało się pobrać szczegółów ${describeRef(ref)}: ${describeError(error)}.`,
+              'error'
             );
             return null;
+          } finally {
+            if (result) {
+              onBundle?.(result);
+            }
+            onProgress?.();
           }
-          reporter?.log(
-            `Zidentyfikowano bundla ${bundleId}: ${result.name} (gry: ${result.games.length}).`,
-            'success'
-          );
-          return result;
-        } catch (error) {
-          reporter?.log(
-            `Nie udało się pobrać szczegółów bundla ${bundleId}: ${describeError(error)}.`,
-            'error'
-          );
-          return null;
-        } finally {
-          if (result) {
-            onBundle?.(result);
-          }
-          onProgress?.();
-        }
-      })
-    )
-  );
-}
-
-async function fetchBundleDetails(
-  bundleId: string,
-  reporter?: BundleFetchReporter,
-): Promise<BundleInfo | null> {
-  const url = `${BUNDLE_PAGE_URL}${encodeURIComponent(bundleId)}?l=english&cc=us`;
-  const { body } = await fetchTextFromSteam(url, `strony bundla ${bundleId}`, reporter, {
-    section: 'bundles',
-  });
-  const name = extractBundleTitle(body);
-  if (!name) {
-    reporter?.log(
-      `Nie udało się ustalić tytułu bundla ${bundleId} w treści odpowiedzi.`,
-      'warning'
+        }, signal)
+      )
     );
-    return null;
   }
-  const games = extractBundleGamesFromHtml(body);
-  const gamesWithReviews = await populateGameReviewData(games, reporter);
-  if (!games.length) {
-    reporter?.log(
-      `Strona bundla ${bundleId} nie zawierała dodatkowych gier lub nie udało się ich zidentyfikować.`,
-      'warning'
+
+  private async fetchBundleDetails(
+    bundleId: string,
+    options: BundleFetchOptions = {},
+  ): Promise<BundleInfo | null> {
+    const url =
+      `${BUNDLE_PAGE_URL}${encodeURIComponent(bundleId)}?${this.regionQuery(options)}`;
+    return this.fetchBundlePage({ kind: 'bundle', id: bundleId }, url, options);
+  }
+
+  // Package pages share the bundle page layout: a purchase box plus the included items.
+  private async fetchPackageDetails(
+    packageId: string,
+    options: BundleFetchOptions = {},
+  ): Promise<BundleInfo | null> {
+    const url =
+      `${PACKAGE_PAGE_URL}${encodeURIComponent(packageId)}?${this.regionQuery(options)}`;
+    return this.fetchBundlePage({ kind: 'package', id: packageId }, url, options);
+  }
+
+  private async fetchBundlePage(
+    ref: BundleRef,
+    url: string,
+    options: BundleFetchOptions = {},
+  ): Promise<BundleInfo | null> {
+    const { reporter, signal, transport, forceRefresh, retry, timeouts } = options;
+    const { body } = await this.fetchTextFromSteam(url, `strony ${describeRef(ref)}`, reporter, {
+      section: 'bundles',
+      kind: 'bundlePage',
+      signal,
+      transport,
+      forceRefresh,
+      retry,
+      timeouts,
+    });
+    const { value: name, strategy: titleStrategy, diagnostics: titleDiagnostics } = parseBundleTitle(
+      body,
+      this.parsers,
     );
+    const parsedGames = parseBundleGames(body, this.parsers);
+    reporter?.detail?.({
+      section: 'bundles',
+      title: `Diagnostyka parsera (strona ${describeRef(ref)})`,
+      body: [
+        describeParseDiagnostics('Tytuł', titleDiagnostics),
+        describeParseDiagnostics('Gry', parsedGames.diagnostics),
+      ].join('\n'),
+    });
+    if (!name || !titleStrategy) {
+      reporter?.log(
+        `Nie udało się ustalić tytułu ${describeRef(ref)} w treści odpowiedzi ` +
+          `(typ strony: ${describePageType(titleDiagnostics.pageType)}).`,
+        'warning'
+      );
+      return null;
+    }
+    const regionCurrency = currencyForCountry(this.resolveRegion(options).countryCode);
+    const gamesStrategy = parsedGames.strategy;
+    const games = parsedGames.value.map((game) => ({ ...game, price: withCurrency(game.price, regionCurrency) }));
+    const classifiedGames = await this.populateItemTypes(games, options);
+    const gamesWithReviews = await this.populateGameReviewData(classifiedGames, options);
+    if (!games.length) {
+      reporter?.log(
+        `Strona ${describeRef(ref)} nie zawierała dodatkowych gier lub nie udało się ich zidentyfikować ` +
+          `(typ strony: ${describePageType(parsedGames.diagnostics.pageType)}, ` +
+          `kandydaci: ${parsedGames.diagnostics.candidateAnchors}).`,
+        'warning'
+      );
+    }
+    const pricing = completeBundlePricing(parseBundlePricing(body, this.parsers).value, games, regionCurrency);
+    return {
+      kind: ref.kind,
+      id: ref.id,
+      name,
+      games: gamesWithReviews,
+      ...(pricing ? { pricing } : {}),
+      parsedBy: { title: titleStrategy, games: gamesStrategy },
+    };
   }
-  return { id: bundleId, name, games: gamesWithReviews };
-}
 
-function extractBundleTitle(body: string): string | null {
-  const patterns = [
-    /<h2[^>]*class="pageheader"[^>]*>([^<]+)<\/h2>/i,
-    /<title[^>]*>([^<]+)<\/title>/i,
-    /^\s*Title:\s*(.+)$/im,
-  ];
+  private async populateGameReviewData(
+    games: BundleGameInfo[],
+    options: BundleFetchOptions = {},
+  ): Promise<BundleGameInfo[]> {
+    if (!games.length) {
+      return games;
+    }
 
-  for (const pattern of patterns) {
-    const match = body.match(pattern);
-    if (match) {
-      const value = decodeHtmlEntities(match[1]).trim();
-      if (value) {
-        return value;
-      }
+    const reviewOptions = { ...this.reviewOptions, ...options.reviews };
+    const languages = Array.from(new Set(reviewOptions.languages?.map((language) => language.trim().toLowerCase())))
+      .filter(Boolean);
+    // Recent and per-language summaries are wanted for every item, not only those missing counts.
+    const detailed = Boolean(reviewOptions.recent) || languages.length > 0;
+    const gamesToQuery = detailed
+      ? games
+      : games.filter((game) => game.reviewCount === null || game.positiveReviewPercent === null);
+
+    const uniqueAppIds = Array.from(new Set(gamesToQuery.map((game) => game.appId))).filter(Boolean);
+    if (!uniqueAppIds.length) {
+      return games;
     }
+
+    const reviewsByAppId = new Map(
+      await Promise.all(
+        uniqueAppIds.map(async (appId) => {
+          const [overall, recent, ...byLanguage] = await Promise.all([
+            this.fetchGameReviewSummary(appId, options),
+            reviewOptions.recent ? this.fetchGameReviewSummary(appId, options, { dayRange: RECENT_REVIEW_DAYS }) : null,
+            ...languages.map((language) => this.fetchGameReviewSummary(appId, options, { language })),
+          ]);
+          const reviews: GameReviews = { overall };
+          if (reviewOptions.recent) {
+            reviews.recent = recent;
+          }
+          if (languages.length) {
+            reviews.byLanguage = Object.fromEntries(languages.map((language, index) => [language, byLanguage[index]]));
+          }
+          return [appId, reviews] as const;
+        }),
+      ),
+    );
+
+    return games.map((game) => {
+      const reviews = reviewsByAppId.get(game.appId);
+      if (!reviews || (!reviews.overall && !reviews.recent && !reviews.byLanguage)) {
+        return game;
+      }
+
+      return {
+        ...game,
+        reviewCount: game.reviewCount ?? reviews.overall?.reviewCount ?? null,
+        positiveReviewPercent: game.positiveReviewPercent ?? reviews.overall?.positiveReviewPercent ?? null,
+        positiveReviewCount: game.positiveReviewCount ?? reviews.overall?.positiveReviewCount ?? null,
+        negativeReviewCount: game.negativeReviewCount ?? reviews.overall?.negativeReviewCount ?? null,
+        reviews,
+      };
+    });
   }
 
-  const markdownMatch = body.match(/Markdown Content:\s*([\s\S]+)/i);
-  if (markdownMatch) {
-    const content = markdownMatch[1];
-    const lines = content.split(/\r?\n/).map((line) => decodeHtmlEntities(line).trim());
-    const firstLine = lines.find((line) => Boolean(line));
-    if (firstLine) {
-      return firstLine;
+  private async populateItemTypes(
+    games: BundleGameInfo[],
+    options: BundleFetchOptions = {},
+  ): Promise<BundleGameInfo[]> {
+    const appIds = Array.from(new Set(games.filter((game) => game.itemType === null).map((game) => game.appId)));
+    if (!appIds.length) {
+      return games;
     }
+
+    const itemTypes = new Map(
+      await Promise.all(
+        appIds.map(async (appId) => [appId, await this.fetchAppItemType(appId, options)] as const),
+      ),
+    );
+    return games.map((game) =>
+      game.itemType === null && itemTypes.get(game.appId) ? { ...game, itemType: itemTypes.get(game.appId)! } : game,
+    );
   }
 
-  return null;
-}
+  private async fetchAppItemType(
+    appId: string,
+    options: BundleFetchOptions = {},
+  ): Promise<BundleItemType | null> {
+    const { reporter, signal, transport, forceRefresh, retry, timeouts } = options;
+    throwIfAborted(signal);
 
-export function extractBundleGamesFromHtml(html: string): BundleGameInfo[] {
-  BUNDLE_ITEM_REGEX.lastIndex = 0;
-  const games: BundleGameInfo[] = [];
-  let match: RegExpExecArray | null;
+    const regionQuery = this.regionQuery(options);
+    const cacheKey = `${regionQuery}:${appId}`;
+    if (!forceRefresh && this.itemTypeCache.has(cacheKey)) {
+      return this.itemTypeCache.get(cacheKey) ?? null;
+    }
 
-  while ((match = BUNDLE_ITEM_REGEX.exec(html)) !== null) {
-    const [, leadingAttributes, appId, trailingAttributes, innerHtml] = match;
-    if (!appId) {
-      continue;
+    const existingPromise = this.itemTypePromises.get(cacheKey);
+    if (existingPromise) {
+      try {
+        return (await existingPromise).value;
+      } catch (error) {
+        if (isAbortError(error) && !signal?.aborted) {
+          return this.fetchAppItemType(appId, options);
+        }
+        throw error;
+      }
     }
-    const attributes = `${leadingAttributes ?? ''} ${trailingAttributes ?? ''}`;
-    const name = extractGameName(innerHtml);
-    const imageUrl = extractImageUrl(innerHtml);
-    const reviewCount = parseIntegerAttribute(attributes, [
-      'data-ds-review-count',
-      'data-ds-reviewcount',
-      'data-ds-review_count',
-    ]);
-    const positivePercent = parseIntegerAttribute(attributes, [
-      'data-ds-review-percentage',
-      'data-ds-reviewpercent',
-      'data-ds-review_percent',
-      'data-ds-reviewscore',
-    ]);
-    const priceUsd = parsePriceAttribute(attributes, [
-      'data-ds-price-final',
-      'data-ds-price',
-      'data-ds-price-final-usd',
-    ]);
-
-    games.push({
-      appId,
-      name,
-      imageUrl,
-      reviewCount,
-      positiveReviewPercent: positivePercent,
-      priceUsd,
-    });
-  }
 
-  if (games.length > 0) {
-    return games;
-  }
+    const task = this.appDetailsLimiter.run(async (): Promise<LookupOutcome<BundleItemType | null>> => {
+      try {
+        const url = `${APP_DETAILS_URL}?appids=${encodeURIComponent(appId)}&filters=basic,genres&${regionQuery}`;
+        const { body } = await this.fetchTextFromSteam(url, `szczegółów aplikacji ${appId}`, reporter, {
+          kind: 'appDetails',
+          signal,
+          transport,
+          forceRefresh,
+          retry,
+          timeouts,
+        });
+        const parsed = parseSteamJsonBody<Record<string, { success?: unknown; data?: unknown }>>(body);
+        const entry = parsed?.[appId];
+        if (!entry?.success) {
+          reporter?.log(`Steam nie zwrócił szczegółów aplikacji ${appId} – typ pozostaje nieznany.`, 'warning');
+          return { value: null, cacheable: true };
+        }
+        return { value: itemTypeFromAppDetails(entry.data), cacheable: true };
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        reporter?.log(
+          `Nie udało się ustalić typu aplikacji ${appId}: ${describeError(error)}`,
+          'warning',
+        );
+        return { value: null, cacheable: false };
+      }
+    }, signal);
 
-  const fallbackGames = extractBundleGamesFromSanitizedMarkdown(html);
-  return fallbackGames;
-}
+    this.itemTypePromises.set(cacheKey, task);
 
-async function populateGameReviewData(
-  games: BundleGameInfo[],
-  reporter?: BundleFetchReporter,
-): Promise<BundleGameInfo[]> {
-  if (!games.length) {
-    return games;
+    try {
+      const { value, cacheable } = await task;
+      if (cacheable) {
+        this.itemTypeCache.set(cacheKey, value);
+      }
+      return value;
+    } finally {
+      this.itemTypePromises.delete(cacheKey);
+    }
   }
 
-  const gamesMissingReviews = games.filter(
-    (game) => game.reviewCount === null || game.positiveReviewPercent === null,
-  );
+  private async fetchGameReviewSummary(
+    appId: string,
+    options: BundleFetchOptions = {},
+    query: ReviewQuery = {},
+  ): Promise<ReviewSummary | null> {
+    const { reporter, signal, transport, forceRefresh, retry, timeouts } = options;
+    throwIfAborted(signal);
 
-  if (!gamesMissingReviews.length) {
-    return games;
-  }
+    const regionQuery = this.regionQuery(options);
+    const language = query.language ?? 'all';
+    const cacheKey = `${regionQuery}:${appId}:${language}:${query.dayRange ?? 'all'}`;
+    if (!forceRefresh && this.reviewSummaryCache.has(cacheKey)) {
+      return this.reviewSummaryCache.get(cacheKey) ?? null;
+    }
 
-  const uniqueAppIds = Array.from(new Set(gamesMissingReviews.map((game) => game.appId))).filter(
-    Boolean,
-  );
+    const existingPromise = this.reviewSummaryPromises.get(cacheKey);
+    if (existingPromise) {
+      try {
+        return (await existingPromise).value;
+      } catch (error) {
+        // Another run owned this request and was aborted – retry under our own signal.
+        if (isAbortError(error) && !signal?.aborted) {
+          return this.fetchGameReviewSummary(appId, options, query);
+        }
+        throw error;
+      }
+    }
 
-  if (!uniqueAppIds.length) {
-    return games;
-  }
+    const task = this.reviewLimiter.run(async (): Promise<LookupOutcome<ReviewSummary | null>> => {
+      try {
+        const url =
+          `${APP_REVIEWS_URL}${encodeURIComponent(appId)}` +
+          `?json=1&language=${encodeURIComponent(language)}&purchase_type=all&review_type=all&filter=all&num_per_page=0` +
+          (query.dayRange ? `&day_range=${query.dayRange}` : '') +
+          `&${regionQuery}`;
+        const { body } = await this.fetchTextFromSteam(
+          url,
+          `podsumowania recenzji gry ${appId}`,
+          reporter,
+          {
+            section: 'reviews',
+            kind: 'reviews',
+            signal,
+            transport,
+            forceRefresh,
+            retry,
+            timeouts,
+            onRateLimit: async (info) => {
+              const waitMs = determineReviewRetryDelay(info.retryAfterMs);
+              if (waitMs <= 0) {
+                return { retryCurrent: false };
+              }
+
+              this.rateLimitWindows.set(info.source, Date.now() + waitMs);
+              const seconds = Math.ceil(waitMs / 1000);
+              const retryDescription = info.retryAfterDate
+                ? `${seconds} s (do ${info.retryAfterDate})`
+                : `${seconds} s`;
+              reporter?.log(
+                `Limit zapytań recenzji został osiągnięty (HTTP ${info.status}). Wstrzymuję kolejne próby na ${retryDescription}.`,
+                'warning',
+              );
+              return { retryCurrent: true };
+            },
+          },
+        );
+        const parsed = parseSteamJsonBody(body);
+        if (!parsed) {
+          reporter?.log(
+            `Odpowiedź z recenzjami gry ${appId} nie zawierała poprawnego JSON-a (query_summary).`,
+            'warning'
+          );
+          return { value: null, cacheable: false };
+        }
+        const summary = extractQuerySummary(parsed);
+        if (!summary) {
+          reporter?.log(
+            `Odpowiedź z recenzjami gry ${appId} nie zawierała wymaganych danych (query_summary).`,
+            'warning',
+          );
+          return { value: null, cacheable: true };
+        }
 
-  const summaries = await Promise.all(
-    uniqueAppIds.map(async (appId) => ({ appId, summary: await fetchGameReviewSummary(appId, reporter) })),
-  );
+        const totalPositive = coerceToNumber(summary['total_positive']);
+        const totalNegative = coerceToNumber(summary['total_negative']);
+        let totalReviews = coerceToNumber(summary['total_reviews']);
 
-  const summaryByAppId = new Map<string, GameReviewSummary | null>();
-  for (const { appId, summary } of summaries) {
-    summaryByAppId.set(appId, summary);
-  }
+        if (totalReviews === null && totalPositive !== null && totalNegative !== null) {
+          totalReviews = totalPositive + totalNegative;
+        }
+
+        const reviewCount = totalReviews !== null ? Math.round(totalReviews) : null;
+        let positiveReviewPercent: number | null = null;
+
+        if (totalReviews !== null && totalReviews > 0 && totalPositive !== null) {
+          positiveReviewPercent = Math.round((totalPositive / totalReviews) * 100);
+          if (!Number.isFinite(positiveReviewPercent)) {
+            positiveReviewPercent = null;
+          } else {
+            positiveReviewPercent = Math.max(0, Math.min(100, positiveReviewPercent));
+          }
+        }
 
-  return games.map((game) => {
-    const summary = summaryByAppId.get(game.appId);
-    if (!summary) {
-      return game;
+        const score = coerceToNumber(summary['review_score']);
+        const scoreDescription = summary['review_score_desc'];
+        const positiveReviewCount = totalPositive !== null ? Math.round(totalPositive) : null;
+        const reviewSummary: ReviewSummary = {
+          reviewCount,
+          positiveReviewPercent,
+          positiveReviewCount,
+          negativeReviewCount:
+            totalNegative !== null
+              ? Math.round(totalNegative)
+              : reviewCount !== null && positiveReviewCount !== null
+              ? reviewCount - positiveReviewCount
+              : null,
+          // Steam labels apps without reviews with a score of 0 and descriptions like "No user reviews".
+          score: score !== null && reviewCount ? score : null,
+          scoreDescription:
+            typeof scoreDescription === 'string' && scoreDescription.trim() ? scoreDescription.trim() : null,
+        };
+        return { value: reviewSummary, cacheable: true };
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        reporter?.log(
+          `Nie udało się pobrać recenzji dla gry ${appId}: ${describeError(error)}`,
+          'warning',
+        );
+        return { value: null, cacheable: false };
+      }
+    }, signal);
+
+    this.reviewSummaryPromises.set(cacheKey, task);
+
+    try {
+      const { value, cacheable } = await task;
+      if (cacheable) {
+        this.reviewSummaryCache.set(cacheKey, value);
+      }
+      return value;
+    } finally {
+      this.reviewSummaryPromises.delete(cacheKey);
     }
+  }
 
-    const reviewCount = game.reviewCount ?? summary.reviewCount ?? null;
-    const positiveReviewPercent =
-      game.positiveReviewPercent ?? summary.positiveReviewPercent ?? null;
+  private async fetchTextFromSteam(
+    url: string,
+    resourceDescription: string,
+    reporter?: BundleFetchReporter,
+    options: SteamFetchOptions = {}
+  ): Promise<{ url: string; body: string }> {
+    const { section = 'other', kind, signal, transport = this.transport, forceRefresh } = options;
 
-    if (reviewCount === game.reviewCount && positiveReviewPercent === game.positiveReviewPercent) {
-      return game;
+    if (kind && !forceRefresh) {
+      const cached = await this.readCachedResponse(url, kind, reporter);
+      if (cached) {
+        reporter?.log(`Użyto zapisanej w pamięci podręcznej kopii ${resourceDescription}.`, 'success');
+        return cached;
+      }
     }
 
-    return {
-      ...game,
-      reviewCount,
-      positiveReviewPercent,
+    const attemptedUrls: AttemptRecord[] = [];
+    const { candidates: healthyCandidates, skipped } = this.proxyHealth.order(
+      this.collectFetchCandidates(url)
+    );
+    const urlsToTry = this.deferRateLimitedSources(healthyCandidates);
+    for (const candidate of skipped) {
+      reporter?.log(
+        `Pomijam ${candidate.source} przy pobieraniu ${resourceDescription} – źródło jest tymczasowo wyłączone po serii błędów.`
+      );
+    }
+
+    reporter?.log(`Pobieranie ${resourceDescription}. Dostępne ${urlsToTry.length} próby.`);
+
+    const recordOutcome = (source: string, healthy: boolean, startedAt: number) => {
+      this.proxyHealth.record(source, healthy, Date.now() - startedAt);
+      reporter?.proxyStats?.(this.proxyHealth.snapshot());
+    };
+    const limiter =
+      kind === 'bundlePage' || kind === 'bundleList'
+        ? this.bundleLimiter
+        : kind === 'reviews'
+        ? this.reviewLimiter
+        : kind === 'appDetails'
+        ? this.appDetailsLimiter
+        : null;
+
+    const retryPolicy = resolveRetryPolicy({ ...this.retryPolicy, ...options.retry });
+    const timeoutKey = kind ?? 'default';
+    const timeouts: Required<RequestTimeouts> = {
+      ...DEFAULT_TIMEOUTS[timeoutKey],
+      ...this.timeouts[timeoutKey],
+      ...options.timeouts?.[timeoutKey],
+    };
+    let candidateAttempt = 1;
+    const retryCandidate = async (reason: string, retryAfterMs: number | null) => {
+      if (candidateAttempt >= retryPolicy.maxAttempts) {
+        return false;
+      }
+      const waitMs = retryAfterMs ?? computeBackoffDelay(retryPolicy, candidateAttempt);
+      if (waitMs > retryPolicy.maxDelayMs) {
+        reporter?.log(
+          `Serwer poprosił o ${Math.ceil(waitMs / 1000)} s przerwy przy pobieraniu ${resourceDescription} – przechodzę do kolejnego źródła.`,
+          'warning'
+        );
+        return false;
+      }
+      reporter?.log(
+        `Ponawiam pobieranie ${resourceDescription} za ${Math.ceil(waitMs / 100) / 10} s ` +
+          `(${reason}; ponowienie ${candidateAttempt}/${retryPolicy.maxAttempts - 1}).`,
+        'warning'
+      );
+      await delay(waitMs, signal);
+      candidateAttempt += 1;
+      return true;
     };
-  });
-}
 
-async function fetchGameReviewSummary(
-  appId: string,
-  reporter?: BundleFetchReporter,
-): Promise<GameReviewSummary | null> {
-  if (reviewSummaryCache.has(appId)) {
-    return reviewSummaryCache.get(appId) ?? null;
-  }
+    let lastRetryAfterMs: number | null = null;
+    let index = 0;
+    while (index < urlsToTry.length) {
+      throwIfAborted(signal);
+      const { url: candidateUrl, source } = urlsToTry[index];
+      await this.waitForRateLimitWindow(source, resourceDescription, reporter, signal);
+      const attemptNumber = index + 1;
+      const startedAt = Date.now();
+      const attemptTimeout = createAttemptTimeout(signal);
+      attemptTimeout.start('connect', timeouts.connectMs);
+
+      try {
+        const response = await transport(candidateUrl, { signal: attemptTimeout.signal });
+        attemptTimeout.start('body', timeouts.bodyMs);
+        if (!response.ok) {
+          const body = await safeReadBody(response);
+          if (body) {
+            reporter?.detail?.({
+              section,
+              title: `Odpowiedź serwera (${resourceDescription}, próba ${attemptNumber})`,
+              body,
+            });
+          }
 
-  const existingPromise = reviewSummaryPromises.get(appId);
-  if (existingPromise) {
-    return existingPromise;
-  }
+          const statusError = new Error(
+            `HTTP ${response.status} ${response.statusText || 'Unknown status'}`
+          );
+          // 404 and 429 come from Steam itself, so the source relayed the request correctly.
+          recordOutcome(source, response.status === 404 || response.status === 429, startedAt);
+          if (response.status === 429 || response.status >= 500) {
+            limiter?.recordCongestion();
+          }
+          const rateInfo = extractRateLimitData(response, body);
+          if (response.status === 429 && rateInfo.retryAfterMs !== null) {
+            this.rateLimitWindows.set(source, Date.now() + rateInfo.retryAfterMs);
+          }
 
-  const task = reviewFetchLimiter(async () => {
-    await waitForReviewWindow(reporter);
-    try {
-      const url =
-        `${APP_REVIEWS_URL}${encodeURIComponent(appId)}` +
-        '?json=1&language=all&purchase_type=all&review_type=all&filter=all&num_per_page=0';
-      const { body } = await fetchTextFromSteam(
-        url,
-        `podsumowania recenzji gry ${appId}`,
-        reporter,
-        {
-          section: 'reviews',
-          onRateLimit: async (info) => {
-            const waitMs = determineReviewRetryDelay(info.retryAfterMs);
-            if (waitMs <= 0) {
-              return { retryCurrent: false };
+          reporter?.log(
+            `Próba ${attemptNumber} dla ${resourceDescription} zakończyła się błędem: ${statusError.message}.`,
+            'warning'
+          );
+          attemptedUrls.push({
+            url: candidateUrl,
+            source,
+            error: statusError,
+            status: response.status,
+            bodyExcerpt: excerptBody(body),
+          });
+          if (response.status === 429) {
+            lastRetryAfterMs = rateInfo.retryAfterMs;
+          }
+          let rateLimitWindowTooLong = false;
+          if (response.status === 429 && options.onRateLimit) {
+            const action = await options.onRateLimit({
+              attemptNumber,
+              body,
+              retryAfterMs: rateInfo.retryAfterMs,
+              retryAfterDate: rateInfo.retryAfterDate,
+              source,
+              status: response.status,
+              url: candidateUrl,
+            });
+
+            if (action?.retryCurrent) {
+              // The handler opened a rate-limit window for this source; it is waited out like any other retry.
+              const waitMs = Math.max(0, (this.rateLimitWindows.get(source) ?? 0) - Date.now());
+              if (waitMs > retryPolicy.maxDelayMs) {
+                rateLimitWindowTooLong = true;
+                reporter?.log(
+                  `Serwer poprosił o ${Math.ceil(waitMs / 1000)} s przerwy przy pobieraniu ${resourceDescription} – przechodzę do kolejnego źródła.`,
+                  'warning'
+                );
+              } else if (candidateAttempt < retryPolicy.maxAttempts) {
+                candidateAttempt += 1;
+                continue;
+              }
             }
+          }
 
-            reviewRateLimitUntil = Date.now() + waitMs;
-            const seconds = Math.ceil(waitMs / 1000);
-            const retryDescription = info.retryAfterDate
-              ? `${seconds} s (do ${info.retryAfterDate})`
-              : `${seconds} s`;
-            reporter?.log(
-              `Limit zapytań recenzji został osiągnięty (HTTP ${info.status}). Wstrzymuję kolejne próby na ${retryDescription}.`,
-              'warning',
-            );
-            await delay(waitMs);
-            reviewRateLimitUntil = 0;
-            return { retryCurrent: true };
-          },
-        },
-      );
-      const parsed = parseSteamJsonBody(body);
-      if (!parsed) {
+          if (
+            !rateLimitWindowTooLong &&
+            retryPolicy.retryableStatuses.includes(response.status) &&
+            (await retryCandidate(statusError.message, rateInfo.retryAfterMs))
+          ) {
+            continue;
+          }
+          index += 1;
+          candidateAttempt = 1;
+          continue;
+        }
+
+        const body = await readCompleteBody(response);
+        recordOutcome(source, true, startedAt);
+        limiter?.recordSuccess();
+        reporter?.log(
+          `Pobrano ${resourceDescription} podczas próby ${attemptNumber}.`,
+          'success'
+        );
+        reporter?.detail?.({
+          section,
+          title: `Odpowiedź serwera (${resourceDescription}, próba ${attemptNumber})`,
+          body,
+        });
+        if (kind) {
+          await this.storeCachedResponse(url, kind, { url: candidateUrl, body }, reporter);
+        }
+        return { url: candidateUrl, body };
+      } catch (error) {
+        if (isAbortError(error) || signal?.aborted) {
+          throw isAbortError(error) ? error : new BundleFetchAbortError({ cause: signal?.reason });
+        }
+        recordOutcome(source, false, startedAt);
+        const timeoutError = attemptTimeout.timeoutError;
+        if (timeoutError) {
+          // A hung source is unlikely to recover within the backoff window – move on instead.
+          attemptedUrls.push({ url: candidateUrl, source, error: timeoutError });
+          reporter?.log(
+            `Próba ${attemptNumber} dla ${resourceDescription} przekroczyła limit czasu: ${timeoutError.message}.`,
+            'warning'
+          );
+          index += 1;
+          candidateAttempt = 1;
+          continue;
+        }
+
+        attemptedUrls.push({ url: candidateUrl, source, error });
         reporter?.log(
-          `Odpowiedź z recenzjami gry ${appId} nie zawierała poprawnego JSON-a (query_summary).`,
+          `Próba ${attemptNumber} dla ${resourceDescription} zakończyła się błędem sieci: ${describeError(error)}.`,
           'warning'
         );
+        // In the browser a failed fetch is usually CORS, so the next candidate is tried instead (see RetryPolicy).
+        const retryable =
+          error instanceof TruncatedResponseError || retryPolicy.retryNetworkErrors;
+        if (retryable && (await retryCandidate(describeError(error), null))) {
+          continue;
+        }
+        index += 1;
+        candidateAttempt = 1;
+      } finally {
+        attemptTimeout.dispose();
+      }
+    }
+
+    reporter?.log(
+      `Nie udało się pobrać ${resourceDescription} po ${attemptedUrls.length} próbach.`,
+      'error'
+    );
+
+    const failure = new SteamFetchError(url, resourceDescription, attemptedUrls);
+    if (!failure.notFound && attemptedUrls.some((attempt) => attempt.status === 429)) {
+      throw new SteamRateLimitError(url, resourceDescription, attemptedUrls, lastRetryAfterMs);
+    }
+    throw failure;
+  }
+
+  private async waitForRateLimitWindow(
+    source: string,
+    resourceDescription: string,
+    reporter?: BundleFetchReporter,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const until = this.rateLimitWindows.get(source);
+    if (until === undefined) {
+      return;
+    }
+    const waitMs = until - Date.now();
+    if (waitMs > 0) {
+      reporter?.log(
+        `Czekam ${Math.ceil(waitMs / 1000)} s przed pobraniem ${resourceDescription} – ${source} jest objęte limitem zapytań.`,
+        'warning'
+      );
+      await delay(waitMs, signal);
+    }
+    if (this.rateLimitWindows.get(source) === until) {
+      this.rateLimitWindows.delete(source);
+    }
+  }
+
+  // Sources still inside a rate-limit window go last so that other sources are tried first.
+  private deferRateLimitedSources(candidates: FetchCandidate[]): FetchCandidate[] {
+    const now = Date.now();
+    const isLimited = (candidate: FetchCandidate) =>
+      (this.rateLimitWindows.get(candidate.source) ?? 0) > now;
+    return [
+      ...candidates.filter((candidate) => !isLimited(candidate)),
+      ...candidates.filter(isLimited),
+    ];
+  }
+
+  private async readCachedResponse(
+    url: string,
+    kind: SteamResourceKind,
+    reporter?: BundleFetchReporter,
+  ): Promise<{ url: string; body: string } | null> {
+    if (!this.responseCache) {
+      return null;
+    }
+
+    try {
+      const entry = await this.responseCache.get(`${kind}:${url}`);
+      if (!entry) {
         return null;
       }
-      const summary = extractQuerySummary(parsed);
-      if (!summary) {
-        reporter?.log(
-          `Odpowiedź z recenzjami gry ${appId} nie zawierała wymaganych danych (query_summary).`,
-          'warning',
-        );
+      if (Date.now() - entry.storedAt > this.cacheTtlMs[kind]) {
+        await this.responseCache.delete(`${kind}:${url}`);
         return null;
       }
+      return { url: entry.url, body: entry.body };
+    } catch (error) {
+      reporter?.log(`Nie udało się odczytać pamięci podręcznej odpowiedzi: ${describeError(error)}.`, 'warning');
+      return null;
+    }
+  }
+
+  private async storeCachedResponse(
+    url: string,
+    kind: SteamResourceKind,
+    response: { url: string; body: string },
+    reporter?: BundleFetchReporter,
+  ): Promise<void> {
+    if (!this.responseCache || this.cacheTtlMs[kind] <= 0) {
+      return;
+    }
+    // A proxy's error page or an age gate would otherwise be served from the cache until it expires.
+    if (UNCACHEABLE_PAGE_TYPES.has(detectPageType(response.body))) {
+      return;
+    }
+
+    try {
+      await this.responseCache.set(`${kind}:${url}`, { ...response, storedAt: Date.now() });
+    } catch (error) {
+      reporter?.log(`Nie udało się zapisać odpowiedzi w pamięci podręcznej: ${describeError(error)}.`, 'warning');
+    }
+  }
+
+  private getProxyUrls(url: string): FetchCandidate[] {
+    const proxies = this.proxies ?? getDefaultProxies();
+    const seen = new Set<string>();
+
+    return proxies
+      .map((proxy) => ({ url: proxy + url, source: proxy }))
+      .filter((candidate) => {
+        if (seen.has(candidate.url)) {
+          return false;
+        }
+        seen.add(candidate.url);
+        return true;
+      });
+  }
+
+  private collectFetchCandidates(url: string): FetchCandidate[] {
+    const seen = new Set<string>();
+    const candidates = [...this.getProxyUrls(url), { url, source: DIRECT_SOURCE }];
+    const result: FetchCandidate[] = [];
+
+    for (const candidate of candidates) {
+      if (!candidate.url || seen.has(candidate.url)) {
+        continue;
+      }
+      seen.add(candidate.url);
+      result.push(candidate);
+    }
+
+    return result;
+  }
+}
 
-      const totalPositive = coerceToNumber(summary['total_positive']);
-      const totalNegative = coerceToNumber(summary['total_negative']);
-      let totalReviews = coerceToNumber(summary['total_reviews']);
+const defaultClient = new BundleMasterClient();
 
-      if (totalReviews === null && totalPositive !== null && totalNegative !== null) {
-        totalReviews = totalPositive + totalNegative;
-      }
+export function fetchBundleNames(
+  appId: string,
+  options: BundleFetchOptions = {}
+): Promise<BundleInfo[]> {
+  return defaultClient.fetchBundleNames(appId, options);
+}
+
+export function fetchBundleNamesForApps(
+  appIds: string[],
+  options: BundleFetchOptions = {}
+): Promise<BundleInfo[]> {
+  return defaultClient.fetchBundleNamesForApps(appIds, options);
+}
 
-      const reviewCount = totalReviews !== null ? Math.round(totalReviews) : null;
-      let positiveReviewPercent: number | null = null;
+export interface RegionalBundleResult {
+  region: SteamRegion;
+  bundles: BundleInfo[];
+}
 
-      if (totalReviews !== null && totalReviews > 0 && totalPositive !== null) {
-        positiveReviewPercent = Math.round((totalPositive / totalReviews) * 100);
-        if (!Number.isFinite(positiveReviewPercent)) {
-          positiveReviewPercent = null;
-        } else {
-          positiveReviewPercent = Math.max(0, Math.min(100, positiveReviewPercent));
-        }
+export interface RegionalBundleComparison {
+  kind: BundleKind;
+  id: string;
+  name: string;
+  // Keyed by country code; null when the bundle is missing or unpriced in that region.
+  pricing: Record<string, BundlePricing | null>;
+  // Final price difference between each region and the first one, in the same currency only.
+  differenceFromFirst: Record<string, Money | null>;
+}
+
+export function compareBundlesAcrossRegions(results: RegionalBundleResult[]): RegionalBundleComparison[] {
+  const rows = new Map<string, RegionalBundleComparison>();
+  for (const { bundles } of results) {
+    for (const bundle of bundles) {
+      if (!rows.has(bundleKey(bundle))) {
+        rows.set(bundleKey(bundle), {
+          kind: bundle.kind,
+          id: bundle.id,
+          name: bundle.name,
+          pricing: {},
+          differenceFromFirst: {},
+        });
       }
+    }
+  }
 
-      return {
-        reviewCount,
-        positiveReviewPercent,
-      };
-    } catch (error) {
-      reporter?.log(
-        `Nie udało się pobrać recenzji dla gry ${appId}: ${describeError(error)}`,
-        'warning',
-      );
-      return null;
+  const [first] = results;
+  const findBundle = (bundles: BundleInfo[], row: RegionalBundleComparison) =>
+    bundles.find((bundle) => bundleKey(bundle) === bundleKey(row));
+  for (const row of rows.values()) {
+    const firstPrice = (first && findBundle(first.bundles, row)?.pricing?.finalPrice) ?? null;
+    for (const { region, bundles } of results) {
+      const pricing = findBundle(bundles, row)?.pricing ?? null;
+      row.pricing[region.countryCode] = pricing;
+      row.differenceFromFirst[region.countryCode] = subtractMoney(pricing?.finalPrice ?? null, firstPrice);
     }
-  });
+  }
+  return Array.from(rows.values());
+}
 
-  reviewSummaryPromises.set(appId, task);
+export function extractBundlesFromHtml(html: string, appId: string): BundleInfo[] {
+  return deduplicateBundles(parseBundleList(html, appId).value);
+}
 
-  try {
-    const result = await task;
-    reviewSummaryCache.set(appId, result);
-    return result;
-  } finally {
-    reviewSummaryPromises.delete(appId);
-  }
+interface BundleMetadataCallbacks {
+  onProgress?: () => void;
+  onBundle?: (bundle: BundleInfo | null) => void;
+}
+
+export function extractBundleGamesFromHtml(html: string): BundleGameInfo[] {
+  return parseBundleGames(html).value;
 }
 
 function extractQuerySummary(source: unknown): Record<string, unknown> | null {
@@ -681,188 +1619,45 @@ function coerceToNumber(value: unknown): number | null {
   return null;
 }
 
-function extractBundleGamesFromSanitizedMarkdown(html: string): BundleGameInfo[] {
-  const markdownIndex = html.indexOf('Markdown Content:');
-  const source = markdownIndex >= 0 ? html.slice(markdownIndex + 'Markdown Content:'.length) : html;
-
-  const lines = source
-    .split(/\r?\n/)
-    .map((line) => decodeHtmlEntities(line).trim());
-
-  if (!lines.length) {
-    return [];
-  }
-
-  const startIndex = lines.findIndex((line) =>
-    line.toLowerCase().includes('items included in this bundle')
-  );
-  const endIndex = lines.findIndex(
-    (line, index) => index > startIndex && line.toLowerCase().startsWith('more like this')
-  );
-
-  const relevantLines =
-    startIndex >= 0
-      ? lines.slice(startIndex + 1, endIndex > startIndex ? endIndex : undefined)
-      : lines;
-
-  const appLinkRegex = /https?:\/\/store\.steampowered\.com\/app\/(\d+)\//i;
-  const seen = new Set<string>();
-  const games: BundleGameInfo[] = [];
-
-  for (let index = 0; index < relevantLines.length; index += 1) {
-    const line = relevantLines[index];
-    const match = line.match(appLinkRegex);
-    if (!match) {
-      continue;
-    }
-
-    const appId = match[1];
-    if (!appId || seen.has(appId)) {
-      continue;
-    }
-
-    const name = extractNameFromSanitizedLines(relevantLines, index + 1);
-
-    games.push({
-      appId,
-      name,
-      imageUrl: `https://steamcdn-a.akamaihd.net/steam/apps/${appId}/capsule_184x69.jpg`,
-      reviewCount: null,
-      positiveReviewPercent: null,
-      priceUsd: null,
-    });
-
-    seen.add(appId);
-  }
-
-  return games;
-}
-
-function extractNameFromSanitizedLines(lines: string[], startIndex: number): string | null {
-  for (let index = startIndex; index < lines.length; index += 1) {
-    const candidate = lines[index];
-    if (!candidate) {
-      continue;
-    }
-
-    const normalized = candidate.toLowerCase();
-
-    if (
-      candidate.startsWith('[') ||
-      candidate.startsWith('!') ||
-      candidate.startsWith('-') ||
-      candidate.startsWith('+') ||
-      candidate.startsWith('·') ||
-      candidate.startsWith('•') ||
-      candidate.startsWith('*') ||
-      /^[$€£¥₽]/.test(candidate) ||
-      /^-?\d/.test(candidate) ||
-      normalized.includes('bundle discount') ||
-      normalized.includes('bundle price') ||
-      normalized.includes('add to cart') ||
-      normalized.includes('buy this bundle') ||
-      normalized.includes('view') ||
-      normalized.includes('includes')
-    ) {
-      continue;
-    }
-
-    return candidate;
-  }
-
-  return null;
-}
-
-function extractGameName(innerHtml: string): string | null {
-  const match = innerHtml.match(/class="[^\"]*tab_item_name[^\"]*"[^>]*>([^<]+)/i);
-  if (match) {
-    const value = decodeHtmlEntities(match[1]).trim();
-    if (value) {
-      return value;
-    }
-  }
-  return null;
-}
-
-function extractImageUrl(innerHtml: string): string | null {
-  const match = innerHtml.match(
-    /<img[^>]*class="[^"]*(?:tab_item_cap_img|bundle_capsule_image)[^"]*"[^>]*src="([^"]+)"/i,
-  );
-  if (match) {
-    const value = decodeHtmlEntities(match[1]).trim();
-    if (value) {
-      return value;
-    }
-  }
-  return null;
-}
-
-function parseIntegerAttribute(source: string, names: string[]): number | null {
-  for (const name of names) {
-    const regex = new RegExp(`${name}\\s*=\\s*"([^"]+)"`, 'i');
-    const match = source.match(regex);
-    if (!match) {
-      continue;
-    }
-    const parsed = parseInteger(match[1]);
-    if (parsed !== null) {
-      return parsed;
-    }
+function normalizeAppId(appId: string): string {
+  const cleanId = appId.trim();
+  if (!cleanId) {
+    throw new AppIdValidationError(appId, 'AppID is required');
   }
-  return null;
-}
-
-function parsePriceAttribute(source: string, names: string[]): number | null {
-  for (const name of names) {
-    const regex = new RegExp(`${name}\\s*=\\s*"([^"]+)"`, 'i');
-    const match = source.match(regex);
-    if (!match) {
-      continue;
-    }
-    const parsed = parsePrice(match[1]);
-    if (parsed !== null) {
-      return parsed;
-    }
+  if (!/^\d+$/.test(cleanId)) {
+    throw new AppIdValidationError(appId, `AppID must be numeric, got "${cleanId}"`);
   }
-  return null;
+  return cleanId;
 }
 
-function parseInteger(rawValue: string | null | undefined): number | null {
-  if (typeof rawValue !== 'string') {
-    return null;
-  }
-  const sanitized = rawValue.replace(/[^\d-]/g, '');
-  if (!sanitized) {
-    return null;
-  }
-  const numeric = Number(sanitized);
-  if (!Number.isFinite(numeric)) {
-    return null;
-  }
-  return numeric;
+// The analysed games are dropped from the list, but their tags are still compared with the rest.
+function withoutOwnGames(bundle: BundleInfo, appIds: string[]): BundleInfo {
+  const games = deduplicateGames(bundle.games);
+  const own = games.filter((game) => appIds.includes(game.appId));
+  const others = games.filter((game) => !appIds.includes(game.appId));
+  // Only a portfolio needs to say which of its titles a bundle holds.
+  const portfolio =
+    appIds.length > 1 ? { ownAppIds: appIds.filter((appId) => own.some((game) => game.appId === appId)) } : {};
+  const ownGames = own.length ? { ownGames: own } : {};
+  const tagProfile = computeTagProfile(others);
+  if (!tagProfile.length) {
+    return { ...bundle, ...portfolio, games: others, ...ownGames };
+  }
+  const ownTags = own.some((game) => game.tags)
+    ? deduplicateTags(own.flatMap((game) => game.tags ?? []))
+    : null;
+  return {
+    ...bundle,
+    ...portfolio,
+    games: others,
+    ...ownGames,
+    tagProfile,
+    tagMatch: matchTagProfile(tagProfile, ownTags),
+  };
 }
 
-function parsePrice(rawValue: string | null | undefined): number | null {
-  if (typeof rawValue !== 'string') {
-    return null;
-  }
-  const trimmed = rawValue.trim();
-  if (!trimmed) {
-    return null;
-  }
-  const hasDecimalSeparator = trimmed.includes('.');
-  const sanitized = trimmed.replace(/[^\d.]/g, '');
-  if (!sanitized) {
-    return null;
-  }
-  const numeric = Number(sanitized);
-  if (!Number.isFinite(numeric)) {
-    return null;
-  }
-  if (hasDecimalSeparator) {
-    return Math.round(numeric * 100) / 100;
-  }
-  return Math.round((numeric / 100) * 100) / 100;
+function deduplicateTags(tags: BundleGameTag[]): BundleGameTag[] {
+  return Array.from(new Map(tags.map((tag) => [tag.id, tag])).values());
 }
 
 function deduplicateGames(games: BundleGameInfo[]): BundleGameInfo[] {
@@ -883,41 +1678,58 @@ function determineReviewRetryDelay(retryAfterMs: number | null): number {
   return 60_000;
 }
 
-async function waitForReviewWindow(reporter?: BundleFetchReporter) {
-  const now = Date.now();
-  if (reviewRateLimitUntil <= now) {
-    return;
-  }
-
-  const waitMs = Math.max(0, reviewRateLimitUntil - now);
-  if (waitMs <= 0) {
-    reviewRateLimitUntil = 0;
-    return;
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(new BundleFetchAbortError({ cause: signal.reason }));
   }
-
-  const seconds = Math.ceil(waitMs / 1000);
-  reporter?.log(
-    `Oczekiwanie ${seconds} s na ponowne pobranie danych z API recenzji Steama (wykryty limit zapytań).`,
-    'info',
-  );
-  await delay(waitMs);
-  reviewRateLimitUntil = 0;
-}
-
-function delay(ms: number): Promise<void> {
   if (ms <= 0) {
     return Promise.resolve();
   }
-  return new Promise((resolve) => {
-    setTimeout(resolve, ms);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new BundleFetchAbortError({ cause: signal?.reason }));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
   });
 }
 
-function createLimiter(limit: number) {
-  if (!Number.isFinite(limit) || limit < 1) {
-    return <T>(task: () => Promise<T>) => task();
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new BundleFetchAbortError({ cause: signal.reason });
   }
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof BundleFetchAbortError;
+}
 
+type Limiter = <T>(task: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+
+interface AdaptiveLimiter {
+  run: Limiter;
+  readonly limit: number;
+  recordSuccess(): void;
+  recordCongestion(): void;
+}
+
+// Ignore further cuts for this long so that one burst of 429s only halves the limit once.
+const CONGESTION_GRACE_MS = 1000;
+
+/**
+ * AIMD limiter: the limit grows by one after a full window of successful responses and is
+ * halved on congestion (429/5xx), staying within `min`..`max`.
+ */
+function createAdaptiveLimiter(options: Required<AdaptiveConcurrencyOptions>): AdaptiveLimiter {
+  const min = Math.max(1, Math.floor(options.min));
+  const max = Math.max(min, Math.floor(options.max));
+  let limit = Math.min(max, Math.max(min, Math.floor(options.initial)));
+  let successesInWindow = 0;
+  let lastCongestionAt = Number.NEGATIVE_INFINITY;
   let active = 0;
   const queue: Array<() => void> = [];
 
@@ -932,9 +1744,24 @@ function createLimiter(limit: number) {
     }
   };
 
-  return function enqueue<T>(task: () => Promise<T>): Promise<T> {
-    return new Promise<T>((resolve, reject) => {
+  const run: Limiter = <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new BundleFetchAbortError({ cause: signal.reason }));
+        return;
+      }
+
+      // Queued tasks that are aborted before they start are dropped from the queue.
+      const onAbort = () => {
+        const index = queue.indexOf(execute);
+        if (index >= 0) {
+          queue.splice(index, 1);
+          reject(new BundleFetchAbortError({ cause: signal?.reason }));
+        }
+      };
+
       const execute = () => {
+        signal?.removeEventListener('abort', onAbort);
         let result: Promise<T>;
         try {
           result = Promise.resolve(task());
@@ -954,25 +1781,219 @@ function createLimiter(limit: number) {
           });
       };
 
+      signal?.addEventListener('abort', onAbort, { once: true });
       queue.push(execute);
       next();
     });
+
+  return {
+    run,
+    get limit() {
+      return limit;
+    },
+    recordSuccess() {
+      successesInWindow += 1;
+      if (successesInWindow >= limit && limit < max) {
+        limit += 1;
+        successesInWindow = 0;
+        next();
+      }
+    },
+    recordCongestion() {
+      successesInWindow = 0;
+      const now = Date.now();
+      if (now - lastCongestionAt < CONGESTION_GRACE_MS) {
+        return;
+      }
+      lastCongestionAt = now;
+      limit = Math.max(min, Math.floor(limit / 2));
+    },
+  };
+}
+
+function resolveConcurrency(
+  value: number | AdaptiveConcurrencyOptions | undefined,
+  defaults: Required<AdaptiveConcurrencyOptions>,
+): Required<AdaptiveConcurrencyOptions> {
+  // NaN would survive the limiter's clamping and stop it from ever starting a task.
+  const finiteOr = (candidate: number | undefined, fallback: number) =>
+    typeof candidate === 'number' && Number.isFinite(candidate) ? candidate : fallback;
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? { initial: value, min: value, max: value } : defaults;
+  }
+  return {
+    initial: finiteOr(value?.initial, defaults.initial),
+    min: finiteOr(value?.min, defaults.min),
+    max: finiteOr(value?.max, defaults.max),
+  };
+}
+
+export const DIRECT_SOURCE = 'direct';
+
+interface FetchCandidate {
+  url: string;
+  source: string;
+}
+
+interface ProxyHealthTracker {
+  order(candidates: FetchCandidate[]): { candidates: FetchCandidate[]; skipped: FetchCandidate[] };
+  record(source: string, healthy: boolean, latencyMs: number): void;
+  snapshot(): ProxyHealthStats[];
+}
+
+function createProxyHealthTracker(options: ProxyHealthOptions = {}): ProxyHealthTracker {
+  const failureThreshold = Math.max(1, options.failureThreshold ?? 3);
+  const cooldownMs = Math.max(0, options.cooldownMs ?? 5 * 60 * 1000);
+  const stats = new Map<string, ProxyHealthStats & { totalLatencyMs: number }>();
+
+  const getStats = (source: string) => {
+    let entry = stats.get(source);
+    if (!entry) {
+      entry = {
+        source,
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        averageLatencyMs: null,
+        disabledUntil: null,
+        totalLatencyMs: 0,
+      };
+      stats.set(source, entry);
+    }
+    return entry;
+  };
+
+  const isDisabled = (source: string, now: number) => {
+    const disabledUntil = stats.get(source)?.disabledUntil ?? null;
+    return disabledUntil !== null && disabledUntil > now;
+  };
+
+  // Laplace-smoothed success rate, so untried sources sit between good and bad ones.
+  const score = (source: string) => {
+    const entry = stats.get(source);
+    return entry ? (entry.successes + 1) / (entry.successes + entry.failures + 2) : 0.5;
+  };
+
+  return {
+    order(candidates) {
+      const now = Date.now();
+      const ranked = candidates
+        .map((candidate, index) => ({ candidate, index }))
+        .sort((a, b) => {
+          const scoreDiff = score(b.candidate.source) - score(a.candidate.source);
+          if (scoreDiff !== 0) {
+            return scoreDiff;
+          }
+          const latencyA = stats.get(a.candidate.source)?.averageLatencyMs ?? null;
+          const latencyB = stats.get(b.candidate.source)?.averageLatencyMs ?? null;
+          if (latencyA !== null && latencyB !== null && latencyA !== latencyB) {
+            return latencyA - latencyB;
+          }
+          return a.index - b.index;
+        })
+        .map(({ candidate }) => candidate);
+
+      const available = ranked.filter((candidate) => !isDisabled(candidate.source, now));
+      if (!available.length) {
+        // Every source is cooling down – trying them anyway beats failing without a request.
+        return { candidates: ranked, skipped: [] };
+      }
+      return {
+        candidates: available,
+        skipped: ranked.filter((candidate) => isDisabled(candidate.source, now)),
+      };
+    },
+    record(source, healthy, latencyMs) {
+      const entry = getStats(source);
+      if (healthy) {
+        entry.successes += 1;
+        entry.consecutiveFailures = 0;
+        entry.disabledUntil = null;
+        entry.totalLatencyMs += Math.max(0, latencyMs);
+        entry.averageLatencyMs = Math.round(entry.totalLatencyMs / entry.successes);
+        return;
+      }
+
+      entry.failures += 1;
+      entry.consecutiveFailures += 1;
+      if (entry.consecutiveFailures >= failureThreshold) {
+        entry.disabledUntil = Date.now() + cooldownMs;
+      }
+    },
+    snapshot() {
+      return Array.from(stats.values()).map(({ totalLatencyMs, ...entry }) => {
+        void totalLatencyMs;
+        return { ...entry };
+      });
+    },
   };
 }
 
+// Pages without the totals table still list every item, so the original total can be summed up.
+function completeBundlePricing(
+  pricing: BundlePricing | null,
+  games: BundleGameInfo[],
+  regionCurrency: string | null,
+): BundlePricing | null {
+  const prices = games.map((game) => game.price);
+  const summed = prices.every((price): price is Money => price !== null) ? sumMoney(prices) : null;
+  const base = pricing ?? { finalPrice: null, originalTotal: null, discountPercent: null, savings: null };
+  return completePricing({
+    ...base,
+    finalPrice: withCurrency(base.finalPrice, regionCurrency),
+    originalTotal: withCurrency(base.originalTotal ?? summed, regionCurrency),
+    savings: withCurrency(base.savings, regionCurrency),
+  });
+}
+
+function describeParsedBy(parsedBy: BundleInfo['parsedBy']): string {
+  if (!parsedBy) {
+    return 'nieznany';
+  }
+  return parsedBy.games && parsedBy.games !== parsedBy.title
+    ? `tytuł – ${parsedBy.title}, gry – ${parsedBy.games}`
+    : parsedBy.title;
+}
+
+function bundleKey(ref: BundleRef): string {
+  return `${ref.kind}:${ref.id}`;
+}
+
+function describeRef(ref: BundleRef): string {
+  return `${ref.kind === 'package' ? 'pakietu' : 'bundla'} ${ref.id}`;
+}
+
 function deduplicateBundles(bundles: BundleInfo[]): BundleInfo[] {
   const seen = new Set<string>();
   return bundles.filter((bundle) => {
-    if (seen.has(bundle.id)) {
+    const key = bundleKey(bundle);
+    if (seen.has(key)) {
       return false;
     }
-    seen.add(bundle.id);
+    seen.add(key);
     return true;
   });
 }
 
 export function extractBundleIdsFromHtml(html: string): string[] {
-  const seen = new Set<string>();
+  return extractBundleRefsFromHtml(html)
+    .filter((ref) => ref.kind === 'bundle')
+    .map((ref) => ref.id);
+}
+
+/** Bundles and packages linked from a bundle list page, in page order. */
+export function extractBundleRefsFromHtml(html: string): BundleRef[] {
+  return parseBundleRefs(html).value;
+}
+
+export function parseBundleRefs(html: string): ParseResult<BundleRef[]> {
+  const refs = new Map<string, BundleRef>();
+  const add = (kind: BundleKind, rawId: unknown) => {
+    const id = String(rawId).trim();
+    if (id) {
+      refs.set(bundleKey({ kind, id }), { kind, id });
+    }
+  };
 
   const jsonMatch = html.match(/data-bundle_list="([^"]+)"/i);
   if (jsonMatch) {
@@ -980,39 +2001,41 @@ export function extractBundleIdsFromHtml(html: string): string[] {
       const parsed = JSON.parse(jsonMatch[1]) as unknown;
       if (Array.isArray(parsed)) {
         for (const value of parsed) {
-          const id = String(value).trim();
-          if (id) {
-            seen.add(id);
-          }
+          add('bundle', value);
         }
       }
     } catch (error) {
-      throw new Error('Failed to parse bundle list from bundle list page', { cause: error });
+      throw new SteamParseError(
+        'listy bundli',
+        'Failed to parse bundle list from bundle list page',
+        jsonMatch[1],
+        { cause: error },
+      );
     }
   }
 
   BUNDLE_LINK_REGEX.lastIndex = 0;
   let match: RegExpExecArray | null;
   while ((match = BUNDLE_LINK_REGEX.exec(html)) !== null) {
-    const id = match[1]?.trim();
-    if (id) {
-      seen.add(id);
-    }
+    add(match[1].toLowerCase() === 'sub' ? 'package' : 'bundle', match[2]);
   }
 
-  return Array.from(seen);
-}
+  PACKAGE_ID_ATTRIBUTE_REGEX.lastIndex = 0;
+  while ((match = PACKAGE_ID_ATTRIBUTE_REGEX.exec(html)) !== null) {
+    add('package', match[1]);
+  }
 
-function decodeHtmlEntities(value: string): string {
-  return value
-    .replace(/&quot;/g, '"')
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&#39;/g, "'")
-    .replace(/&nbsp;/g, ' ')
-    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
-    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  const value = Array.from(refs.values());
+  const strategy = value.length ? (jsonMatch ? 'json' : 'regex') : null;
+  const diagnostics: ParseDiagnostics = {
+    pageType: detectPageType(html),
+    strategy,
+    attempted: jsonMatch ? ['json', 'regex'] : ['regex'],
+    candidateAnchors:
+      countMatches(html, BUNDLE_LINK_REGEX) + countMatches(html, PACKAGE_ID_ATTRIBUTE_REGEX) + (jsonMatch ? 1 : 0),
+    failedFields: value.length ? [] : ['bundleIds'],
+  };
+  return { value, strategy, diagnostics };
 }
 
 interface RateLimitInfo {
@@ -1020,6 +2043,7 @@ interface RateLimitInfo {
   body: string;
   retryAfterMs: number | null;
   retryAfterDate: string | null;
+  source: string;
   status: number;
   url: string;
 }
@@ -1030,105 +2054,101 @@ interface RateLimitAction {
 
 interface SteamFetchOptions {
   section?: BundleFetchDetailSection;
+  kind?: SteamResourceKind;
+  signal?: AbortSignal;
+  transport?: BundleFetchTransport;
+  forceRefresh?: boolean;
+  retry?: RetryPolicy;
+  timeouts?: RequestTimeoutOptions;
   onRateLimit?: (info: RateLimitInfo) => Promise<RateLimitAction | void> | RateLimitAction | void;
 }
 
-async function fetchTextFromSteam(
-  url: string,
-  resourceDescription: string,
-  reporter?: BundleFetchReporter,
-  options: SteamFetchOptions = {}
-): Promise<{ url: string; body: string }> {
-  const attemptedUrls: AttemptRecord[] = [];
-  const urlsToTry = collectFetchCandidates(url);
-  const section = options.section ?? 'other';
-
-  reporter?.log(`Pobieranie ${resourceDescription}. Dostępne ${urlsToTry.length} próby.`);
-
-  let index = 0;
-  while (index < urlsToTry.length) {
-    const candidateUrl = urlsToTry[index];
-    const attemptNumber = index + 1;
+interface AttemptTimeout {
+  signal: AbortSignal;
+  readonly timeoutError: SteamTimeoutError | null;
+  start(phase: 'connect' | 'body', timeoutMs: number): void;
+  dispose(): void;
+}
 
-    try {
-      const response = await fetch(candidateUrl);
-      if (!response.ok) {
-        const body = await safeReadBody(response);
-        if (body) {
-          reporter?.detail?.({
-            section,
-            title: `Odpowiedź serwera (${resourceDescription}, próba ${attemptNumber})`,
-            body,
-          });
-        }
+function createAttemptTimeout(parentSignal?: AbortSignal): AttemptTimeout {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let timeoutError: SteamTimeoutError | null = null;
+  const onParentAbort = () => controller.abort(parentSignal?.reason);
 
-        const statusError = new Error(
-          `HTTP ${response.status} ${response.statusText || 'Unknown status'}`
-        );
+  if (parentSignal?.aborted) {
+    onParentAbort();
+  } else {
+    parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+  }
 
-        if (response.status === 429 && options.onRateLimit) {
-          const rateInfo = extractRateLimitData(response, body);
-          const action = await options.onRateLimit({
-            attemptNumber,
-            body,
-            retryAfterMs: rateInfo.retryAfterMs,
-            retryAfterDate: rateInfo.retryAfterDate,
-            status: response.status,
-            url: candidateUrl,
-          });
+  return {
+    signal: controller.signal,
+    get timeoutError() {
+      return timeoutError;
+    },
+    start(phase, timeoutMs) {
+      clearTimeout(timer);
+      if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+        return;
+      }
+      timer = setTimeout(() => {
+        timeoutError = new SteamTimeoutError(phase, timeoutMs);
+        controller.abort(timeoutError);
+      }, timeoutMs);
+    },
+    dispose() {
+      clearTimeout(timer);
+      parentSignal?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
 
-          if (action?.retryCurrent) {
-            continue;
-          }
-        }
+class TruncatedResponseError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'TruncatedResponseError';
+  }
+}
 
-        reporter?.log(
-          `Próba ${attemptNumber} dla ${resourceDescription} zakończyła się błędem: ${statusError.message}.`,
-          'warning'
-        );
-        attemptedUrls.push({
-          url: candidateUrl,
-          error: statusError,
-          status: response.status,
-          body,
-        });
-        index += 1;
-        continue;
-      }
+async function readCompleteBody(response: Response): Promise<string> {
+  let body: string;
+  try {
+    body = await response.text();
+  } catch (error) {
+    throw new TruncatedResponseError('Response body could not be read completely', { cause: error });
+  }
 
-      const body = await response.text();
-      reporter?.log(
-        `Pobrano ${resourceDescription} podczas próby ${attemptNumber}.`,
-        'success'
-      );
-      reporter?.detail?.({
-        section,
-        title: `Odpowiedź serwera (${resourceDescription}, próba ${attemptNumber})`,
-        body,
-      });
-      return { url: candidateUrl, body };
-    } catch (error) {
-      attemptedUrls.push({ url: candidateUrl, error });
-      reporter?.log(
-        `Próba ${attemptNumber} dla ${resourceDescription} zakończyła się błędem sieci: ${describeError(error)}.`,
-        'warning'
+  // Content-Length describes the encoded payload, so it can only be compared for identity encoding.
+  const expectedLength = Number(response.headers.get('content-length'));
+  const encoding = response.headers.get('content-encoding');
+  if ((!encoding || encoding === 'identity') && Number.isFinite(expectedLength) && expectedLength > 0) {
+    const receivedLength = new TextEncoder().encode(body).length;
+    if (receivedLength < expectedLength) {
+      throw new TruncatedResponseError(
+        `Response body was truncated (${receivedLength} of ${expectedLength} bytes)`
       );
-      index += 1;
     }
   }
 
-  reporter?.log(
-    `Nie udało się pobrać ${resourceDescription} po ${attemptedUrls.length} próbach.`,
-    'error'
-  );
+  return body;
+}
 
-  const attemptsDescription = attemptedUrls
-    .map((attempt, attemptIndex) => `  ${attemptIndex + 1}. ${attempt.url} → ${describeError(attempt.error)}`)
-    .join('\n');
+function resolveRetryPolicy(policy: RetryPolicy): Required<RetryPolicy> {
+  return {
+    maxAttempts: Math.max(1, Math.floor(policy.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts)),
+    baseDelayMs: Math.max(0, policy.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs),
+    maxDelayMs: Math.max(0, policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs),
+    jitter: Math.max(0, Math.min(1, policy.jitter ?? DEFAULT_RETRY_POLICY.jitter)),
+    retryableStatuses: policy.retryableStatuses ?? DEFAULT_RETRY_POLICY.retryableStatuses,
+    retryNetworkErrors: policy.retryNetworkErrors ?? !isBrowserRuntime(),
+  };
+}
 
-  throw new Error(
-    `Failed to retrieve ${resourceDescription} from Steam after ${attemptedUrls.length} attempt(s):\n${attemptsDescription}`
-  );
+function computeBackoffDelay(policy: Required<RetryPolicy>, retryNumber: number): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retryNumber - 1));
+  const spread = exponential * policy.jitter;
+  return Math.max(0, Math.round(exponential - spread + Math.random() * spread * 2));
 }
 
 async function safeReadBody(response: Response): Promise<string> {
@@ -1193,39 +2213,11 @@ function parseRetryAfterHeader(value: string | null): number | null {
   return null;
 }
 
-function getProxyUrls(url: string): string[] {
+function getDefaultProxies(): string[] {
   if (!isBrowserRuntime()) {
     return [];
   }
-
-  const proxies = runtimeProxy ? [runtimeProxy, ...FALLBACK_PROXIES] : FALLBACK_PROXIES;
-  const seen = new Set<string>();
-
-  return proxies
-    .map((proxy) => proxy + url)
-    .filter((candidate) => {
-      if (seen.has(candidate)) {
-        return false;
-      }
-      seen.add(candidate);
-      return true;
-    });
-}
-
-function collectFetchCandidates(url: string): string[] {
-  const seen = new Set<string>();
-  const candidates = [...getProxyUrls(url), url];
-  const result: string[] = [];
-
-  for (const candidate of candidates) {
-    if (!candidate || seen.has(candidate)) {
-      continue;
-    }
-    seen.add(candidate);
-    result.push(candidate);
-  }
-
-  return result;
+  return runtimeProxy ? [runtimeProxy, ...FALLBACK_PROXIES] : FALLBACK_PROXIES;
 }
 
 function normalizeProxy(value: string): string {
@@ -1235,22 +2227,3 @@ function normalizeProxy(value: string): string {
   }
   return trimmed.endsWith('/') ? trimmed : `${trimmed}/`;
 }
-
-function describeError(error: unknown): string {
-  if (!error) {
-    return 'Unknown error';
-  }
-  if (error instanceof Error) {
-    const cause = 'cause' in error ? (error as { cause?: unknown }).cause : undefined;
-    const causeDescription = cause ? `; cause: ${describeError(cause)}` : '';
-    return `${error.name}: ${error.message}${causeDescription}`;
-  }
-  return String(error);
-}
-
-interface AttemptRecord {
-  url: string;
-  error: unknown;
-  status?: number;
-  body?: string;
-}
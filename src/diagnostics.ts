@@ -0,0 +1,60 @@
+export type PageType = 'html' | 'markdown' | 'ageGate' | 'errorPage' | 'empty';
+
+/** What a parser saw on a page, to tell a Steam markup change from a proxy problem. */
+export interface ParseDiagnostics {
+  pageType: PageType;
+  // Strategy that produced the value, or null when none of them did.
+  strategy: string | null;
+  // Strategies tried in order, up to and including the successful one.
+  attempted: string[];
+  // Elements the parsers could have read, e.g. `data-ds-appid` items or bundle links.
+  candidateAnchors: number;
+  // Fields missing from the result, e.g. `title`, or `price` when any item lacks one.
+  failedFields: string[];
+}
+
+const MARKDOWN_REGEX = /^(?:Title|URL Source|Markdown Content):/im;
+const AGE_GATE_REGEX = /\/agecheck\/|id="app_agegate"|class="[^"]*\bagegate_|Please enter your birth date/i;
+const ERROR_PAGE_REGEX =
+  /id="error_box"|An error was encountered while processing your request|Target URL returned error|<title>\s*(?:Site Error|Error)\s*<\/title>/i;
+
+const PAGE_TYPE_LABELS: Record<PageType, string> = {
+  html: 'surowy HTML',
+  markdown: 'markdown z proxy',
+  ageGate: 'bramka wieku',
+  errorPage: 'strona błędu',
+  empty: 'pusta odpowiedź',
+};
+
+export function detectPageType(body: string): PageType {
+  if (!body.trim()) {
+    return 'empty';
+  }
+  if (ERROR_PAGE_REGEX.test(body)) {
+    return 'errorPage';
+  }
+  if (AGE_GATE_REGEX.test(body)) {
+    return 'ageGate';
+  }
+  return MARKDOWN_REGEX.test(body) ? 'markdown' : 'html';
+}
+
+export function countMatches(body: string, pattern: RegExp): number {
+  return body.match(new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`))
+    ?.length ?? 0;
+}
+
+export function describePageType(pageType: PageType): string {
+  return PAGE_TYPE_LABELS[pageType];
+}
+
+export function describeParseDiagnostics(label: string, diagnostics: ParseDiagnostics): string {
+  const attempted = diagnostics.attempted.length ? diagnostics.attempted.join(', ') : 'brak';
+  return [
+    `${label}:`,
+    `  typ strony: ${describePageType(diagnostics.pageType)}`,
+    `  parser: ${diagnostics.strategy ?? 'żaden'} (próbowane: ${attempted})`,
+    `  kandydaci: ${diagnostics.candidateAnchors}`,
+    `  nieodczytane pola: ${diagnostics.failedFields.length ? diagnostics.failedFields.join(', ') : 'brak'}`,
+  ].join('\n');
+}
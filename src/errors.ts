@@ -0,0 +1,119 @@
+const BODY_EXCERPT_LENGTH = 500;
+
+export interface AttemptRecord {
+  url: string;
+  // Proxy prefix, or `direct` for requests sent straight to Steam.
+  source: string;
+  error: unknown;
+  status?: number;
+  bodyExcerpt?: string;
+}
+
+export class BundleMasterError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'BundleMasterError';
+  }
+}
+
+export class AppIdValidationError extends BundleMasterError {
+  readonly appId: string;
+
+  constructor(appId: string, message: string) {
+    super(message);
+    this.name = 'AppIdValidationError';
+    this.appId = appId;
+  }
+}
+
+export class BundleFetchAbortError extends BundleMasterError {
+  constructor(options?: { cause?: unknown }) {
+    super('Bundle fetch was aborted', options);
+    this.name = 'BundleFetchAbortError';
+  }
+}
+
+export class SteamTimeoutError extends BundleMasterError {
+  readonly phase: 'connect' | 'body';
+  readonly timeoutMs: number;
+
+  constructor(phase: 'connect' | 'body', timeoutMs: number) {
+    super(
+      phase === 'connect'
+        ? `No response headers within ${timeoutMs} ms`
+        : `Response body not received within ${timeoutMs} ms`
+    );
+    this.name = 'SteamTimeoutError';
+    this.phase = phase;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class SteamFetchError extends BundleMasterError {
+  readonly url: string;
+  readonly resource: string;
+  readonly attempts: AttemptRecord[];
+
+  constructor(url: string, resource: string, attempts: AttemptRecord[]) {
+    const attemptsDescription = attempts
+      .map((attempt, index) => `  ${index + 1}. ${attempt.url} → ${describeError(attempt.error)}`)
+      .join('\n');
+    super(
+      `Failed to retrieve ${resource} from Steam after ${attempts.length} attempt(s):\n${attemptsDescription}`
+    );
+    this.name = 'SteamFetchError';
+    this.url = url;
+    this.resource = resource;
+    this.attempts = attempts;
+  }
+
+  // True when no source answered usefully: every attempt failed without an HTTP response (network errors,
+  // timeouts, CORS) or with a server error, as a broken proxy returns 5xx.
+  get allSourcesUnavailable(): boolean {
+    return this.attempts.every((attempt) => attempt.status === undefined || attempt.status >= 500);
+  }
+
+  // True when Steam itself reported that the resource does not exist.
+  get notFound(): boolean {
+    return this.attempts.some((attempt) => attempt.status === 404);
+  }
+}
+
+export class SteamRateLimitError extends SteamFetchError {
+  readonly retryAfterMs: number | null;
+
+  constructor(url: string, resource: string, attempts: AttemptRecord[], retryAfterMs: number | null) {
+    super(url, resource, attempts);
+    this.name = 'SteamRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class SteamParseError extends BundleMasterError {
+  readonly resource: string;
+  readonly bodyExcerpt: string;
+
+  constructor(resource: string, message: string, body: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'SteamParseError';
+    this.resource = resource;
+    this.bodyExcerpt = excerptBody(body);
+  }
+}
+
+export function excerptBody(body: string): string {
+  const trimmed = body.trim();
+  return trimmed.length > BODY_EXCERPT_LENGTH ? `${trimmed.slice(0, BODY_EXCERPT_LENGTH)}…` : trimmed;
+}
+
+export function describeError(error: unknown): string {
+  if (!error) {
+    return 'Unknown error';
+  }
+  if (error instanceof Error) {
+    const cause = 'cause' in error ? (error as { cause?: unknown }).cause : undefined;
+    const causeDescription = cause ? `; cause: ${describeError(cause)}` : '';
+    return `${error.name}: ${error.message}${causeDescription}`;
+  }
+  return String(error);
+}
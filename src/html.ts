@@ -0,0 +1,233 @@
+/**
+ * The subset of a DOM element the parsers rely on. Implemented both on top of the browser's
+ * DOMParser and by the lightweight tree builder below, which is used where no DOM exists (Node).
+ */
+export interface MarkupElement {
+  readonly tagName: string;
+  readonly children: readonly MarkupElement[];
+  readonly textContent: string;
+  getAttribute(name: string): string | null;
+}
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+// Their content is text with entities, unlike script/style.
+const ESCAPABLE_RAW_TEXT_ELEMENTS = new Set(['textarea', 'title']);
+
+const TAG_PATTERN =
+  /<(\/?)([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/y;
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+class LightElement implements MarkupElement {
+  readonly tagName: string;
+  readonly children: LightElement[] = [];
+  private readonly attributes: Map<string, string>;
+  private readonly content: Array<LightElement | string> = [];
+
+  constructor(tagName: string, attributes: Map<string, string> = new Map()) {
+    this.tagName = tagName;
+    this.attributes = attributes;
+  }
+
+  get textContent(): string {
+    return this.content.map((part) => (typeof part === 'string' ? part : part.textContent)).join('');
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes.get(name.toLowerCase()) ?? null;
+  }
+
+  appendElement(element: LightElement) {
+    this.children.push(element);
+    this.content.push(element);
+  }
+
+  appendText(text: string) {
+    if (text) {
+      this.content.push(text);
+    }
+  }
+}
+
+/**
+ * Uses DOMParser when the runtime provides one and the lightweight tree builder otherwise.
+ */
+export function parseMarkup(html: string): MarkupElement {
+  if (typeof DOMParser !== 'undefined') {
+    return parseWithDomParser(html);
+  }
+  return parseWithTreeBuilder(html);
+}
+
+export function parseWithDomParser(html: string): MarkupElement {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  return wrapDomElement(document.documentElement);
+}
+
+/**
+ * Tolerant HTML tree builder: unknown end tags are ignored, unclosed elements are closed at the
+ * end of input and a nested `<a>` closes the open one, as browsers do.
+ */
+export function parseWithTreeBuilder(html: string): MarkupElement {
+  const root = new LightElement('#document');
+  const stack: LightElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  let position = 0;
+
+  while (position < html.length) {
+    const tagStart = html.indexOf('<', position);
+    if (tagStart < 0) {
+      current().appendText(decodeHtmlEntities(html.slice(position)));
+      break;
+    }
+    current().appendText(decodeHtmlEntities(html.slice(position, tagStart)));
+
+    if (html.startsWith('<!--', tagStart)) {
+      const end = html.indexOf('-->', tagStart + 4);
+      position = end < 0 ? html.length : end + 3;
+      continue;
+    }
+    if (html.startsWith('<!', tagStart) || html.startsWith('<?', tagStart)) {
+      const end = html.indexOf('>', tagStart);
+      position = end < 0 ? html.length : end + 1;
+      continue;
+    }
+
+    TAG_PATTERN.lastIndex = tagStart;
+    const match = TAG_PATTERN.exec(html);
+    if (!match) {
+      current().appendText('<');
+      position = tagStart + 1;
+      continue;
+    }
+    position = TAG_PATTERN.lastIndex;
+
+    const [, closingSlash, rawName, rawAttributes, selfClosingSlash] = match;
+    const tagName = rawName.toLowerCase();
+
+    if (closingSlash) {
+      const index = findOpenElement(stack, tagName);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    if (tagName === 'a') {
+      const index = findOpenElement(stack, 'a');
+      if (index > 0) {
+        stack.length = index;
+      }
+    }
+
+    const element = new LightElement(tagName, parseAttributes(rawAttributes));
+    current().appendElement(element);
+
+    if (RAW_TEXT_ELEMENTS.has(tagName) && !selfClosingSlash) {
+      const closing = new RegExp(`</${tagName}\\s*>`, 'ig');
+      closing.lastIndex = position;
+      const closingMatch = closing.exec(html);
+      const end = closingMatch ? closingMatch.index : html.length;
+      const text = html.slice(position, end);
+      element.appendText(ESCAPABLE_RAW_TEXT_ELEMENTS.has(tagName) ? decodeHtmlEntities(text) : text);
+      position = closingMatch ? closing.lastIndex : html.length;
+      continue;
+    }
+
+    if (!VOID_ELEMENTS.has(tagName) && !selfClosingSlash) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+/** Depth-first, document-order search over the descendants of `root`. */
+export function findElements(
+  root: MarkupElement,
+  predicate: (element: MarkupElement) => boolean,
+): MarkupElement[] {
+  const result: MarkupElement[] = [];
+  const visit = (element: MarkupElement) => {
+    for (const child of element.children) {
+      if (predicate(child)) {
+        result.push(child);
+      }
+      visit(child);
+    }
+  };
+  visit(root);
+  return result;
+}
+
+export function findElement(
+  root: MarkupElement,
+  predicate: (element: MarkupElement) => boolean,
+): MarkupElement | null {
+  for (const child of root.children) {
+    if (predicate(child)) {
+      return child;
+    }
+    const nested = findElement(child, predicate);
+    if (nested) {
+      return nested;
+    }
+  }
+  return null;
+}
+
+export function hasClass(element: MarkupElement, className: string): boolean {
+  const value = element.getAttribute('class');
+  return value ? value.split(/\s+/).includes(className) : false;
+}
+
+export function decodeHtmlEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function findOpenElement(stack: LightElement[], tagName: string): number {
+  for (let index = stack.length - 1; index > 0; index -= 1) {
+    if (stack[index].tagName === tagName) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function parseAttributes(source: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_PATTERN.exec(source)) !== null) {
+    const name = match[1].toLowerCase();
+    if (attributes.has(name)) {
+      continue;
+    }
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    attributes.set(name, decodeHtmlEntities(value));
+  }
+  return attributes;
+}
+
+function wrapDomElement(element: Element): MarkupElement {
+  return {
+    tagName: element.tagName.toLowerCase(),
+    get children() {
+      return Array.from(element.children, wrapDomElement);
+    },
+    get textContent() {
+      return element.textContent ?? '';
+    },
+    getAttribute: (name) => element.getAttribute(name),
+  };
+}
@@ -0,0 +1,70 @@
+import type { BundleItemType } from './bundles';
+
+/** What the markup of a single bundle item reveals about it. */
+export interface BundleItemSignals {
+  appId: string;
+  name: string | null;
+  // Class names of the item and its descendants, e.g. `ds_dlc_flag`.
+  classNames: string[];
+  // Base game the item belongs to, from `data-ds-parent-appid` or a link to another app.
+  parentAppId: string | null;
+}
+
+const BADGE_PATTERNS: Array<[RegExp, BundleItemType]> = [
+  [/(?:^|[_-])(?:soundtrack|music|ost)(?:[_-]|$)/i, 'soundtrack'],
+  [/(?:^|[_-])dlc(?:[_-]|$)/i, 'dlc'],
+  [/(?:^|[_-])demo(?:[_-]|$)/i, 'demo'],
+  [/(?:^|[_-])(?:tool|software)(?:[_-]|$)/i, 'tool'],
+];
+
+const NAME_PATTERNS: Array<[RegExp, BundleItemType]> = [
+  [/\b(?:soundtrack|OST)\b/i, 'soundtrack'],
+  [/\bdemo\b/i, 'demo'],
+  [/\b(?:dedicated server|SDK|mod tools|level editor)\b/i, 'tool'],
+];
+
+// Steam genres of non-game software: Animation & Modeling … Game Development.
+const SOFTWARE_GENRE_IDS = new Set(['51', '52', '53', '54', '55', '56', '57', '58', '59', '60']);
+
+const APP_DETAILS_TYPES: Record<string, BundleItemType> = {
+  game: 'game',
+  dlc: 'dlc',
+  music: 'soundtrack',
+  demo: 'demo',
+  application: 'tool',
+  tool: 'tool',
+};
+
+/**
+ * Badges win over the parent link, which wins over the name. Items without any of these
+ * signals stay unclassified until appdetails settles them.
+ */
+export function classifyBundleItem(signals: BundleItemSignals): BundleItemType | null {
+  for (const [pattern, type] of BADGE_PATTERNS) {
+    if (signals.classNames.some((className) => pattern.test(className))) {
+      return type;
+    }
+  }
+  const nameType = NAME_PATTERNS.find(([pattern]) => signals.name && pattern.test(signals.name))?.[1] ?? null;
+  if (signals.parentAppId && signals.parentAppId !== signals.appId) {
+    return nameType === 'soundtrack' ? 'soundtrack' : 'dlc';
+  }
+  if (nameType) {
+    return nameType;
+  }
+  return null;
+}
+
+/** Reads the `data` object of an `api/appdetails` entry. */
+export function itemTypeFromAppDetails(details: unknown): BundleItemType | null {
+  if (!details || typeof details !== 'object') {
+    return null;
+  }
+  const { type, genres } = details as { type?: unknown; genres?: unknown };
+  const itemType = typeof type === 'string' ? APP_DETAILS_TYPES[type.toLowerCase()] ?? null : null;
+  if (itemType !== 'game' || !Array.isArray(genres) || !genres.length) {
+    return itemType;
+  }
+  const isSoftware = genres.every((genre) => SOFTWARE_GENRE_IDS.has(String(genre?.id ?? '')));
+  return isSoftware ? 'tool' : 'game';
+}
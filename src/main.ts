@@ -1,7 +1,36 @@
-import { fetchBundleNames, type BundleFetchReporter, type BundleInfo } from './bundles';
+import {
+  AppIdValidationError,
+  BundleFetchAbortError,
+  BundleMasterClient,
+  SteamFetchError,
+  SteamRateLimitError,
+  compareBundlesAcrossRegions,
+  type BundleFetchReporter,
+  type BundleGameTag,
+  type BundleInfo,
+  type BundleItemType,
+  type BundleKind,
+  type BundlePlatform,
+  type DeckCompatibility,
+  type GameReviews,
+  type ReviewSummary,
+  type VrSupport,
+  type BundlePricing,
+  type Money,
+  type RegionalBundleComparison,
+  type TagProfileEntry,
+  type ProxyHealthStats,
+} from './bundles';
+import { analyseBundleOverlap } from './overlap';
+import { planCheapestAcquisition } from './planner';
+import { rateGame } from './ratings';
+import { createBrowserCacheStore } from './responseCache';
+import { DEFAULT_QUALITY_THRESHOLD, scoreBundles, sortByPartnerValue, type BundleValueMetrics } from './scoring';
+import { createTrafficRecorder, type TrafficRecorder } from './traffic';
 
 const DEFAULT_APP_ID = '1190970';
 const APP_VERSION = '1.1.0';
+const DEFAULT_COUNTRY = 'us';
 
 const app = document.getElementById('app')!;
 app.innerHTML = `
@@ -9,7 +38,7 @@ app.innerHTML = `
     <header class="header">
       <div class="header-text">
         <h1 class="title">Steam Bundle Analyzer</h1>
-        <p class="subtitle">Wpisz AppID i kliknij „Analizuj”.</p>
+        <p class="subtitle">Wpisz AppID (lub kilka, oddzielonych przecinkami) i kliknij „Analizuj”.</p>
       </div>
       <span class="version-badge">v${APP_VERSION}</span>
     </header>
@@ -17,11 +46,67 @@ app.innerHTML = `
       <input
         id="appid"
         class="appid-input"
-        placeholder="np. ${DEFAULT_APP_ID}"
+        placeholder="np. ${DEFAULT_APP_ID} lub ${DEFAULT_APP_ID}, 1811340"
         value="${DEFAULT_APP_ID}"
       />
       <button id="go" class="analyze-button">Analizuj</button>
     </div>
+    <div class="region-group">
+      <label class="region-field">
+        Regiony (kody krajów, np. <code>pl</code> lub <code>us, pl, de</code>)
+        <input id="country" class="region-input" value="${DEFAULT_COUNTRY}" />
+      </label>
+      <label class="region-field">
+        Język
+        <select id="language" class="region-input">
+          <option value="english">angielski</option>
+          <option value="polish">polski</option>
+          <option value="german">niemiecki</option>
+          <option value="french">francuski</option>
+        </select>
+      </label>
+    </div>
+    <div class="options">
+      <label class="option-toggle">
+        <input id="force-refresh" type="checkbox" />
+        Pomiń zapisane odpowiedzi i pobierz dane ponownie
+      </label>
+      <label class="option-toggle">
+        <input id="record-traffic" type="checkbox" />
+        Nagrywaj ruch sieciowy (plik HAR do zgłoszenia błędu)
+      </label>
+      <label class="option-toggle">
+        Pokaż pozycje:
+        <select id="item-type-filter" class="region-input">
+          <option value="all">wszystkie</option>
+          <option value="game">gry</option>
+          <option value="dlc">DLC</option>
+          <option value="soundtrack">ścieżki dźwiękowe</option>
+          <option value="demo">dema</option>
+          <option value="tool">narzędzia</option>
+        </select>
+      </label>
+      <label class="option-toggle">
+        Sortuj bundle:
+        <select id="bundle-sort" class="region-input">
+          <option value="steam">kolejność ze Steam</option>
+          <option value="partnerValue">wartość partnerska</option>
+        </select>
+      </label>
+      <label class="option-toggle">
+        <input id="recent-reviews" type="checkbox" />
+        Pobierz recenzje z ostatnich 30 dni
+      </label>
+      <label class="option-toggle">
+        Recenzje w językach:
+        <input id="review-languages" class="region-input" placeholder="np. polish, german" />
+      </label>
+      <label class="option-toggle">
+        Posiadane gry (AppID, do planu zakupu):
+        <input id="owned-apps" class="region-input" placeholder="np. 400, 620" />
+      </label>
+      <a id="download-har" class="download-link" hidden>Pobierz zapis ruchu</a>
+    </div>
     <div id="out" class="output"></div>
   </div>
 `;
@@ -29,26 +114,82 @@ app.innerHTML = `
 const appIdInput = document.getElementById('appid') as HTMLInputElement;
 const output = document.getElementById('out') as HTMLDivElement;
 const analyzeButton = document.getElementById('go') as HTMLButtonElement;
+const forceRefreshInput = document.getElementById('force-refresh') as HTMLInputElement;
+const countryInput = document.getElementById('country') as HTMLInputElement;
+const languageSelect = document.getElementById('language') as HTMLSelectElement;
+const recordTrafficInput = document.getElementById('record-traffic') as HTMLInputElement;
+const harDownloadLink = document.getElementById('download-har') as HTMLAnchorElement;
+const itemTypeFilterSelect = document.getElementById('item-type-filter') as HTMLSelectElement;
+const bundleSortSelect = document.getElementById('bundle-sort') as HTMLSelectElement;
+const ownedAppsInput = document.getElementById('owned-apps') as HTMLInputElement;
+const recentReviewsInput = document.getElementById('recent-reviews') as HTMLInputElement;
+const reviewLanguagesInput = document.getElementById('review-languages') as HTMLInputElement;
+
+const client = new BundleMasterClient({ cache: { store: createBrowserCacheStore() } });
 
 const BUTTON_LABEL_DEFAULT = analyzeButton.textContent?.trim() || 'Analizuj';
 const BUTTON_LABEL_BUSY = 'Analizuję…';
 
 const setAnalyzing = (active: boolean) => {
-  analyzeButton.disabled = active;
   analyzeButton.textContent = active ? BUTTON_LABEL_BUSY : BUTTON_LABEL_DEFAULT;
 };
 
+let activeAnalysis: AbortController | null = null;
+
 type BundleGame = {
   appId: string;
   name: string | null;
   imageUrl: string | null;
   reviewCount: number | null;
   positiveReviewPercent: number | null;
-  priceUsd: number | null;
+  positiveReviewCount: number | null;
+  negativeReviewCount: number | null;
+  price: Money | null;
+  itemType: BundleItemType | null;
+  platforms: BundlePlatform[] | null;
+  deckCompatibility: DeckCompatibility | null;
+  vrSupport: VrSupport | null;
+  tags: BundleGameTag[] | null;
+  reviews?: GameReviews;
 };
 
-type Bundle = { id: string; name: string; games: BundleGame[] };
+type Bundle = {
+  kind: BundleKind;
+  id: string;
+  name: string;
+  games: BundleGame[];
+  pricing?: BundlePricing;
+  tagProfile?: TagProfileEntry[];
+  tagMatch?: number | null;
+  ownAppIds?: string[];
+  ownGames?: BundleGame[];
+};
 type LogLevel = 'info' | 'success' | 'warning' | 'error';
+type ItemTypeFilter = BundleItemType | 'all';
+type BundleSort = 'steam' | 'partnerValue';
+
+const PLATFORM_LABELS: Record<BundlePlatform, string> = { windows: 'Windows', mac: 'macOS', linux: 'Linux' };
+const DECK_LABELS: Record<DeckCompatibility, string> = {
+  verified: 'Steam Deck: zweryfikowana',
+  playable: 'Steam Deck: grywalna',
+  unsupported: 'Steam Deck: nieobsługiwana',
+  unknown: 'Steam Deck: nieznana',
+};
+const VR_LABELS: Record<VrSupport, string> = { supported: 'VR', required: 'Tylko VR' };
+const TAG_PROFILE_SIZE = 5;
+const FREQUENT_PARTNERS_LIMIT = 10;
+const BUNDLE_KIND_LABELS: Record<BundleKind, string> = { bundle: 'Bundle', package: 'Pakiet' };
+
+const formatTagName = (tag: { id: number; name: string | null }) => tag.name ?? `Tag #${tag.id}`;
+
+const ITEM_TYPE_GROUPS: Array<{ type: BundleItemType | null; label: string }> = [
+  { type: 'game', label: 'Gry' },
+  { type: 'dlc', label: 'DLC' },
+  { type: 'soundtrack', label: 'Ścieżki dźwiękowe' },
+  { type: 'demo', label: 'Dema' },
+  { type: 'tool', label: 'Narzędzia' },
+  { type: null, label: 'Nieznany typ' },
+];
 
 type LogEntry = {
   id: number;
@@ -83,10 +224,56 @@ const formatPercentage = (value: number | null) =>
     ? `${value}%`
     : 'Brak danych';
 
-const formatPrice = (value: number | null) =>
-  typeof value === 'number' && Number.isFinite(value)
-    ? `$${value.toFixed(2)}`
-    : 'Brak danych';
+const formatMoney = (money: Money | null) => {
+  if (!money || !Number.isFinite(money.amount)) {
+    return 'Brak danych';
+  }
+  const plain = money.amount.toLocaleString('pl-PL', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  if (!money.currency) {
+    return plain;
+  }
+  try {
+    return money.amount.toLocaleString('pl-PL', { style: 'currency', currency: money.currency });
+  } catch (error) {
+    void error;
+    return `${plain} ${money.currency}`;
+  }
+};
+
+// Invalid entries are kept so that the client reports them instead of silently dropping them.
+const parseAppIds = (value: string) => {
+  const ids = value.split(/[\s,;]+/).filter(Boolean);
+  return ids.length ? Array.from(new Set(ids)) : [DEFAULT_APP_ID];
+};
+
+const parseCountryCodes = (value: string) => {
+  const codes = value
+    .split(/[\s,;]+/)
+    .map((code) => code.trim().toLowerCase())
+    .filter((code) => /^[a-z]{2}$/.test(code));
+  return codes.length ? Array.from(new Set(codes)) : [DEFAULT_COUNTRY];
+};
+
+const describeFailure = (error: unknown): string => {
+  if (error instanceof AppIdValidationError) {
+    return `Nieprawidłowy AppID: ${error.message}`;
+  }
+  if (error instanceof SteamRateLimitError) {
+    const wait =
+      error.retryAfterMs !== null ? ` Spróbuj ponownie za ${Math.ceil(error.retryAfterMs / 1000)} s.` : '';
+    return `Steam ogranicza liczbę zapytań (HTTP 429).${wait}`;
+  }
+  if (error instanceof SteamFetchError) {
+    if (error.notFound) {
+      return `Steam zwrócił 404 dla zasobu: ${error.resource}. Sprawdź, czy AppID jest poprawny.`;
+    }
+    if (error.allSourcesUnavailable) {
+      const sources = error.attempts.map((attempt) => attempt.url).join('\n');
+      return `Wszystkie źródła (proxy i Steam) są niedostępne – nie udało się pobrać: ${error.resource}.\n${sources}`;
+    }
+  }
+  return error instanceof Error ? error.message : 'Nieznany błąd';
+};
 
 const escapeHtml = (value: string) =>
   value
@@ -104,6 +291,12 @@ const createLogger = (element: HTMLDivElement) => {
   let logEntries: LogEntry[] = [];
   let detailEntries: DetailEntry[] = [];
   let progress: ProgressState | null = null;
+  let proxyStats: ProxyHealthStats[] = [];
+  let regionComparison: { countries: string[]; rows: RegionalBundleComparison[] } | null = null;
+  let itemTypeFilter: ItemTypeFilter = 'all';
+  let bundleSort: BundleSort = 'steam';
+  let targetAppIds = new Set<string>();
+  let ownedAppIds: string[] = [];
   let counter = 0;
   let lastLogKey: string | null = null;
   const detailKeys = new Set<string>();
@@ -167,6 +360,71 @@ const createLogger = (element: HTMLDivElement) => {
     `;
   };
 
+  const renderProxyStats = (previousStates: Map<string, boolean>) => {
+    if (!proxyStats.length) {
+      return '';
+    }
+
+    const now = Date.now();
+    const rows = proxyStats
+      .map((entry) => {
+        const source = entry.source === 'direct' ? 'Bezpośrednio (Steam)' : entry.source;
+        const status =
+          entry.disabledUntil !== null && entry.disabledUntil > now
+            ? `wstrzymane na ${Math.ceil((entry.disabledUntil - now) / 1000)} s`
+            : 'aktywne';
+        const latency = entry.averageLatencyMs !== null ? `${formatNumber(entry.averageLatencyMs)} ms` : '—';
+        return `
+          <tr>
+            <td>${escapeHtml(source)}</td>
+            <td>${entry.successes}</td>
+            <td>${entry.failures}</td>
+            <td>${latency}</td>
+            <td>${escapeHtml(status)}</td>
+          </tr>
+        `;
+      })
+      .join('');
+
+    return `
+      <section class="logger-section">
+        <details class="collapsible" data-section="proxies" ${
+          previousStates.get('proxies') ? 'open' : ''
+        }>
+          <summary class="collapsible__summary">
+            <span class="section-title">Źródła pobierania</span>
+            <span class="collapsible__badge">${proxyStats.length}</span>
+          </summary>
+          <table class="proxy-table">
+            <thead>
+              <tr><th>Źródło</th><th>Sukcesy</th><th>Błędy</th><th>Śr. czas</th><th>Stan</th></tr>
+            </thead>
+            <tbody>${rows}</tbody>
+          </table>
+        </details>
+      </section>
+    `;
+  };
+
+  const renderTargetToggle = (appId: string, label: string) => `
+    <label class="bundle-game__target">
+      <input type="checkbox" data-target-app="${escapeHtml(appId)}" ${targetAppIds.has(appId) ? 'checked' : ''} />
+      ${label}
+    </label>
+  `;
+
+  const renderOwnGameTargets = (games: BundleGame[] | undefined) =>
+    games?.length
+      ? `<div class="bundle-game__tags">Analizowane tytuły: ${games
+          .map((game) =>
+            renderTargetToggle(
+              game.appId,
+              `${game.name ? escapeHtml(game.name) : 'Aplikacja'} (#${escapeHtml(game.appId)})`,
+            ),
+          )
+          .join('')}</div>`
+      : '';
+
   const renderBundleGame = (game: BundleGame) => {
     const name = game.name ? escapeHtml(game.name) : `Aplikacja #${escapeHtml(game.appId)}`;
     const imageMarkup = game.imageUrl
@@ -179,19 +437,323 @@ const createLogger = (element: HTMLDivElement) => {
         <div class="bundle-game__content">
           <div class="bundle-game__title">${name} <span class="bundle-game__appid">(#${escapeHtml(
             game.appId,
-          )})</span></div>
+          )})</span>
+            ${renderTargetToggle(game.appId, 'Chcę zdobyć')}
+          </div>
           <div class="bundle-game__stats">
-            <span class="bundle-game__stat">Recenzje: ${formatNumber(game.reviewCount)}</span>
-            <span class="bundle-game__stat">Pozytywne: ${formatPercentage(
-              game.positiveReviewPercent,
-            )}</span>
-            <span class="bundle-game__stat">Cena: ${formatPrice(game.priceUsd)}</span>
+            ${renderGameRating(game)}
+            <span class="bundle-game__stat">Cena: ${formatMoney(game.price)}</span>
           </div>
+          ${renderReviewDetails(game.reviews)}
+          ${renderPlatformBadges(game)}
+          ${
+            game.tags?.length
+              ? `<div class="bundle-game__tags">${escapeHtml(
+                  game.tags.slice(0, TAG_PROFILE_SIZE).map(formatTagName).join(', '),
+                )}</div>`
+              : ''
+          }
         </div>
       </li>
     `;
   };
 
+  // The confidence-adjusted ratings lead; the raw percentage and counts follow as secondary information.
+  const renderGameRating = (game: BundleGame) => {
+    const rating = rateGame(game);
+    const rawCounts =
+      game.positiveReviewCount !== null && game.negativeReviewCount !== null
+        ? ` (${formatNumber(game.positiveReviewCount)} poz. / ${formatNumber(game.negativeReviewCount)} neg.)`
+        : '';
+    return `
+      <span class="bundle-game__stat">Ocena: ${formatPercentage(rating?.bayesian ?? null)}</span>
+      <span class="bundle-game__stat">Wilson (95%): ${formatPercentage(rating?.wilson ?? null)}</span>
+      <span class="bundle-game__stat bundle-game__stat--secondary">Pozytywne: ${formatPercentage(
+        game.positiveReviewPercent,
+      )} z ${formatNumber(game.reviewCount)}${rawCounts}</span>
+    `;
+  };
+
+  const formatReviewSummary = (summary: ReviewSummary | null | undefined) => {
+    if (!summary || !summary.reviewCount) {
+      return 'brak recenzji';
+    }
+    const label = summary.scoreDescription ? `${escapeHtml(summary.scoreDescription)}, ` : '';
+    return `${label}${formatPercentage(summary.positiveReviewPercent)} z ${formatNumber(summary.reviewCount)}`;
+  };
+
+  const renderReviewDetails = (reviews: GameReviews | undefined) => {
+    if (!reviews) {
+      return '';
+    }
+    const lines = [
+      reviews.overall?.scoreDescription ? `Ocena Steam: ${escapeHtml(reviews.overall.scoreDescription)}` : null,
+      reviews.recent !== undefined ? `Ostatnie 30 dni: ${formatReviewSummary(reviews.recent)}` : null,
+      ...Object.entries(reviews.byLanguage ?? {}).map(
+        ([language, summary]) => `Język ${escapeHtml(language)}: ${formatReviewSummary(summary)}`,
+      ),
+    ].filter(Boolean);
+    return lines.length
+      ? `<div class="bundle-game__reviews">${lines.map((line) => `<span>${line}</span>`).join('')}</div>`
+      : '';
+  };
+
+  const renderPlatformBadges = (game: BundleGame) => {
+    const badges = [
+      ...(game.platforms ?? []).map((platform) => ({ label: PLATFORM_LABELS[platform], modifier: platform })),
+      ...(game.deckCompatibility
+        ? [{ label: DECK_LABELS[game.deckCompatibility], modifier: `deck-${game.deckCompatibility}` }]
+        : []),
+      ...(game.vrSupport ? [{ label: VR_LABELS[game.vrSupport], modifier: 'vr' }] : []),
+    ];
+    if (!badges.length) {
+      return '';
+    }
+    return `
+      <div class="bundle-game__badges">
+        ${badges
+          .map(
+            ({ label, modifier }) =>
+              `<span class="platform-badge platform-badge--${modifier}">${escapeHtml(label)}</span>`,
+          )
+          .join('')}
+      </div>
+    `;
+  };
+
+  // Share of items that run on Linux and on the Deck, which is what bundle partners are picked by.
+  const renderPlatformSummary = (games: BundleGame[]) => {
+    const known = games.filter((game) => game.platforms !== null);
+    const rated = games.filter((game) => game.deckCompatibility && game.deckCompatibility !== 'unknown');
+    if (!known.length && !rated.length) {
+      return '';
+    }
+    const linux = known.filter((game) => game.platforms?.includes('linux')).length;
+    const deck = rated.filter(
+      (game) => game.deckCompatibility === 'verified' || game.deckCompatibility === 'playable',
+    ).length;
+    const stats = [
+      known.length ? `Linux: ${linux}/${known.length}` : null,
+      rated.length ? `Steam Deck (zweryfikowane lub grywalne): ${deck}/${rated.length}` : null,
+    ].filter((stat): stat is string => stat !== null);
+    return `
+      <div class="bundle-pricing">
+        ${stats.map((stat) => `<span class="bundle-game__stat">${escapeHtml(stat)}</span>`).join('')}
+      </div>
+    `;
+  };
+
+  const renderTagProfile = (bundle: Bundle) => {
+    if (!bundle.tagProfile?.length) {
+      return '';
+    }
+    const stats = bundle.tagProfile
+      .slice(0, TAG_PROFILE_SIZE)
+      .map((entry) => `${Math.round(entry.share * 100)}% ${formatTagName(entry)}`);
+    if (typeof bundle.tagMatch === 'number') {
+      stats.push(`Zgodność z tagami Twojej gry: ${Math.round(bundle.tagMatch * 100)}%`);
+    }
+    return `
+      <div class="bundle-pricing">
+        ${stats.map((stat) => `<span class="bundle-game__stat">${escapeHtml(stat)}</span>`).join('')}
+      </div>
+    `;
+  };
+
+  const renderBundleGameGroups = (games: BundleGame[]) => {
+    const groups = ITEM_TYPE_GROUPS.filter(({ type }) => itemTypeFilter === 'all' || type === itemTypeFilter)
+      .map(({ type, label }) => ({ label, games: games.filter((game) => game.itemType === type) }))
+      .filter((group) => group.games.length);
+    if (!groups.length) {
+      return '<div class="bundle-game-list bundle-game-list--empty">Brak pozycji wybranego typu w tym bundlu.</div>';
+    }
+    return groups
+      .map(
+        (group) => `
+          <div class="bundle-game-group">
+            <h3 class="bundle-game-group__title">${escapeHtml(group.label)} (${group.games.length})</h3>
+            <ul class="bundle-game-list">${group.games.map(renderBundleGame).join('')}</ul>
+          </div>
+        `,
+      )
+      .join('');
+  };
+
+  const renderBundleValue = (metrics: BundleValueMetrics) => {
+    if (!metrics.partnerCount) {
+      return '';
+    }
+    const stats = [
+      `Wartość partnerska: ${metrics.partnerValue === null ? 'brak danych' : `${metrics.partnerValue}/100`}`,
+      `Recenzje gier łącznie: ${formatNumber(metrics.totalReviews)}`,
+      `Średnia ocena gier: ${formatPercentage(metrics.averageRating)}`,
+      `Pozytywne (surowe, ważone recenzjami): ${formatPercentage(metrics.weightedPositivePercent)}`,
+      `Mediana ceny: ${formatMoney(metrics.medianPrice)}`,
+      `Poniżej progu ${DEFAULT_QUALITY_THRESHOLD.minPositivePercent}% / ${DEFAULT_QUALITY_THRESHOLD.minReviewCount} recenzji: ${
+        metrics.belowThresholdShare === null ? '—' : `${Math.round(metrics.belowThresholdShare * 100)}%`
+      }`,
+    ];
+    return `
+      <div class="bundle-pricing bundle-value">
+        ${stats.map((stat) => `<span class="bundle-game__stat">${escapeHtml(stat)}</span>`).join('')}
+      </div>
+    `;
+  };
+
+  const renderBundlePricing = (pricing: BundlePricing | undefined) => {
+    if (!pricing) {
+      return '';
+    }
+    const stats = [
+      `Cena bundla: ${formatMoney(pricing.finalPrice)}`,
+      `Suma cen gier: ${formatMoney(pricing.originalTotal)}`,
+      `Rabat bundla: ${formatPercentage(pricing.discountPercent)}`,
+      `Oszczędzasz: ${formatMoney(pricing.savings)}`,
+    ];
+    return `
+      <div class="bundle-pricing">
+        ${stats.map((stat) => `<span class="bundle-game__stat">${escapeHtml(stat)}</span>`).join('')}
+      </div>
+    `;
+  };
+
+  const renderRegionComparison = () => {
+    if (!regionComparison || !regionComparison.rows.length) {
+      return '';
+    }
+    const { countries, rows } = regionComparison;
+    const header = countries.map((country) => `<th>${escapeHtml(country.toUpperCase())}</th>`).join('');
+    const body = rows
+      .map((row) => {
+        const cells = countries
+          .map((country, index) => {
+            const price = row.pricing[country]?.finalPrice ?? null;
+            const difference = row.differenceFromFirst[country];
+            const differenceMarkup =
+              index > 0 && difference
+                ? ` <span class="region-difference">(${difference.amount > 0 ? '+' : ''}${escapeHtml(
+                    formatMoney(difference),
+                  )})</span>`
+                : '';
+            return `<td>${escapeHtml(formatMoney(price))}${differenceMarkup}</td>`;
+          })
+          .join('');
+        const kind = row.kind === 'package' ? ` <span class="bundle-kind">${BUNDLE_KIND_LABELS.package}</span>` : '';
+        return `<tr><td>${escapeHtml(row.name)}${kind}</td>${cells}</tr>`;
+      })
+      .join('');
+
+    return `
+      <section class="logger-section">
+        <h2 class="section-title">Porównanie regionów</h2>
+        <table class="proxy-table region-table">
+          <thead><tr><th>Bundle</th>${header}</tr></thead>
+          <tbody>${body}</tbody>
+        </table>
+      </section>
+    `;
+  };
+
+  // Bundles that keep sharing the same partners add little reach, so repeated partners are worth spotting.
+  const renderBundleOverlap = () => {
+    if (!bundles || bundles.length < 2) {
+      return '';
+    }
+    const overlap = analyseBundleOverlap(bundles);
+    const header = overlap.bundles.map((_, index) => `<th>#${index + 1}</th>`).join('');
+    const rows = overlap.bundles
+      .map((bundle, rowIndex) => {
+        const cells = overlap.similarity[rowIndex]
+          .map((value) => {
+            if (value === null) {
+              return '<td class="heatmap-cell">—</td>';
+            }
+            const alpha = (0.1 + value * 0.8).toFixed(2);
+            return `<td class="heatmap-cell" style="background: rgba(255, 30, 86, ${alpha})">${Math.round(
+              value * 100,
+            )}%</td>`;
+          })
+          .join('');
+        return `<tr><td>#${rowIndex + 1} ${escapeHtml(bundle.name)}</td>${cells}<td>${
+          bundle.uniqueAppIds.length
+        }</td></tr>`;
+      })
+      .join('');
+
+    const shared = overlap.partners.filter((partner) => partner.count > 1).slice(0, FREQUENT_PARTNERS_LIMIT);
+    const partnersMarkup = shared.length
+      ? `
+        <table class="proxy-table">
+          <thead><tr><th>Gra</th><th>Bundle</th><th>Udział</th></tr></thead>
+          <tbody>${shared
+            .map(
+              (partner) => `
+                <tr>
+                  <td>${partner.name ? escapeHtml(partner.name) : 'Aplikacja'} (#${escapeHtml(partner.appId)})</td>
+                  <td>${partner.bundleIndices.map((index) => `#${index + 1}`).join(', ')}</td>
+                  <td>${Math.round(partner.share * 100)}%</td>
+                </tr>
+              `,
+            )
+            .join('')}</tbody>
+        </table>
+      `
+      : '<div class="log-empty">Bundle nie mają wspólnych partnerów.</div>';
+
+    return `
+      <div class="bundle-overlap">
+        <h3 class="bundle-game-group__title">Pokrywanie się bundli</h3>
+        <table class="proxy-table heatmap-table">
+          <thead><tr><th>Bundle</th>${header}<th>Unikalne gry</th></tr></thead>
+          <tbody>${rows}</tbody>
+        </table>
+        <h3 class="bundle-game-group__title">Najczęstsi partnerzy</h3>
+        ${partnersMarkup}
+      </div>
+    `;
+  };
+
+  const renderAcquisitionPlan = () => {
+    if (!bundles?.length || !targetAppIds.size) {
+      return '';
+    }
+    const plan = planCheapestAcquisition(bundles, Array.from(targetAppIds), { ownedAppIds });
+    if (!plan) {
+      return '<div class="bundle-plan log-empty">Ceny są podane w różnych walutach – nie da się ułożyć planu zakupu.</div>';
+    }
+    const steps = [
+      ...plan.bundles.map(
+        (bundle) =>
+          `${BUNDLE_KIND_LABELS[bundle.kind]} „${escapeHtml(bundle.name)}” – ${escapeHtml(
+            formatMoney(bundle.price),
+          )} (daje: ${bundle.appIds.map((appId) => `#${escapeHtml(appId)}`).join(', ')})`,
+      ),
+      ...plan.singles.map(
+        (single) =>
+          `${single.name ? escapeHtml(single.name) : 'Aplikacja'} (#${escapeHtml(single.appId)}) osobno – ${escapeHtml(
+            formatMoney(single.price),
+          )}`,
+      ),
+    ];
+    const notes = [
+      plan.unreachable.length
+        ? `Brak ceny i bundla dla: ${plan.unreachable.map((appId) => `#${escapeHtml(appId)}`).join(', ')}.`
+        : null,
+      plan.exhaustive ? null : 'Przeszukiwanie przerwano po limicie kroków – plan może nie być najtańszy.',
+    ].filter(Boolean);
+
+    return `
+      <div class="bundle-plan">
+        <h3 class="bundle-game-group__title">Najtańszy plan zakupu (${targetAppIds.size} gier)</h3>
+        ${steps.length ? `<ol class="bundle-plan__steps">${steps.map((step) => `<li>${step}</li>`).join('')}</ol>` : ''}
+        <div class="bundle-pricing">
+          <span class="bundle-game__stat">Razem: ${escapeHtml(formatMoney(plan.total))}</span>
+        </div>
+        ${notes.map((note) => `<div class="region-difference">${note}</div>`).join('')}
+      </div>
+    `;
+  };
+
   const renderBundles = () => {
     if (errorMessage) {
       return `<div class="result result--error">${formatText(errorMessage)}</div>`;
@@ -202,13 +764,14 @@ const createLogger = (element: HTMLDivElement) => {
     }
 
     if (!bundles.length) {
-      return '<div class="result result--empty">Brak bundli powiązanych z tą grą.</div>';
+      return '<div class="result result--empty">Brak bundli ani pakietów powiązanych z tą grą.</div>';
     }
 
-    const items = bundles
-      .map((bundle) => {
+    const scored = scoreBundles(bundles);
+    const items = (bundleSort === 'partnerValue' ? sortByPartnerValue(scored) : scored)
+      .map(({ bundle, metrics }) => {
         const gamesMarkup = bundle.games.length
-          ? `<ul class="bundle-game-list">${bundle.games.map(renderBundleGame).join('')}</ul>`
+          ? renderBundleGameGroups(bundle.games)
           : '<div class="bundle-game-list bundle-game-list--empty">Brak dodatkowych gier w tym bundlu.</div>';
 
         return `
@@ -216,7 +779,22 @@ const createLogger = (element: HTMLDivElement) => {
             <div class="bundle-header">
               <span class="bundle-name">${escapeHtml(bundle.name)}</span>
               <span class="bundle-id">(#${escapeHtml(bundle.id)})</span>
+              <span class="bundle-kind bundle-kind--${bundle.kind}">${BUNDLE_KIND_LABELS[bundle.kind]}</span>
             </div>
+            ${
+              bundle.ownAppIds
+                ? `<div class="bundle-game__tags">Twoje tytuły w bundlu: ${
+                    bundle.ownAppIds.length
+                      ? bundle.ownAppIds.map((appId) => `#${escapeHtml(appId)}`).join(', ')
+                      : 'brak'
+                  }</div>`
+                : ''
+            }
+            ${renderOwnGameTargets(bundle.ownGames)}
+            ${renderBundleValue(metrics)}
+            ${renderBundlePricing(bundle.pricing)}
+            ${renderPlatformSummary(bundle.games)}
+            ${renderTagProfile(bundle)}
             ${gamesMarkup}
           </li>
         `;
@@ -317,6 +895,7 @@ const createLogger = (element: HTMLDivElement) => {
       </section>
     `
       : '';
+    const proxyStatsMarkup = renderProxyStats(previousStates);
     const progressMarkup = renderProgress();
     const bundlesMarkup = renderBundles();
 
@@ -333,10 +912,14 @@ const createLogger = (element: HTMLDivElement) => {
         </details>
       </section>
       ${detailsMarkup}
+      ${proxyStatsMarkup}
       ${progressMarkup}
+      ${renderRegionComparison()}
       <section class="logger-section">
         <h2 class="section-title">Wynik</h2>
+        ${renderAcquisitionPlan()}
         ${bundlesMarkup}
+        ${renderBundleOverlap()}
       </section>
     `;
   };
@@ -391,6 +974,41 @@ const createLogger = (element: HTMLDivElement) => {
     render();
   };
 
+  const setRegionComparison = (countries: string[], rows: RegionalBundleComparison[]) => {
+    regionComparison = { countries, rows };
+    render();
+  };
+
+  const setItemTypeFilter = (filter: ItemTypeFilter) => {
+    itemTypeFilter = filter;
+    render();
+  };
+
+  const setTargetApp = (appId: string, selected: boolean) => {
+    targetAppIds = new Set(targetAppIds);
+    if (selected) {
+      targetAppIds.add(appId);
+    } else {
+      targetAppIds.delete(appId);
+    }
+    render();
+  };
+
+  const setOwnedAppIds = (appIds: string[]) => {
+    ownedAppIds = appIds;
+    render();
+  };
+
+  const setBundleSort = (sort: BundleSort) => {
+    bundleSort = sort;
+    render();
+  };
+
+  const setProxyStats = (stats: ProxyHealthStats[]) => {
+    proxyStats = stats;
+    render();
+  };
+
   const setError = (message: string) => {
     bundles = null;
     errorMessage = message;
@@ -403,6 +1021,9 @@ const createLogger = (element: HTMLDivElement) => {
     logEntries = [];
     detailEntries = [];
     progress = null;
+    proxyStats = [];
+    regionComparison = null;
+    targetAppIds = new Set();
     counter = 0;
     lastLogKey = null;
     detailKeys.clear();
@@ -420,26 +1041,53 @@ const createLogger = (element: HTMLDivElement) => {
     setBundles,
     setError,
     setProgress: updateProgress,
+    setProxyStats,
+    setRegionComparison,
+    setItemTypeFilter,
+    setBundleSort,
+    setTargetApp,
+    setOwnedAppIds,
     reset,
   };
 };
 
 const logger = createLogger(output);
 
-const analyze = async () => {
-  if (analyzeButton.disabled) {
-    return;
+const offerTrafficDownload = async (recorder: TrafficRecorder, appId: string) => {
+  const archive = await recorder.toHar();
+  if (harDownloadLink.href) {
+    URL.revokeObjectURL(harDownloadLink.href);
   }
+  const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+  harDownloadLink.href = URL.createObjectURL(blob);
+  harDownloadLink.download = `steam-${appId}-${new Date().toISOString().replace(/[:.]/g, '-')}.har`;
+  harDownloadLink.textContent = `Pobierz zapis ruchu (${archive.log.entries.length} żądań)`;
+  harDownloadLink.hidden = false;
+};
+
+const analyze = async () => {
+  // Starting a new analysis cancels the previous one instead of waiting for it.
+  activeAnalysis?.abort();
+  const controller = new AbortController();
+  activeAnalysis = controller;
+  const isCurrent = () => activeAnalysis === controller;
 
   setAnalyzing(true);
-  const id = appIdInput.value.trim() || DEFAULT_APP_ID;
+  const ids = parseAppIds(appIdInput.value);
+  const id = ids.join(', ');
   appIdInput.value = id;
   logger.reset();
+  logger.setProxyStats(client.getProxyStats());
+  harDownloadLink.hidden = true;
+  const recorder = recordTrafficInput.checked ? createTrafficRecorder() : null;
   logger.logInfo(`Rozpoczynam analizę dla AppID ${id}.`);
   logger.logInfo('Pobieranie danych o bundlach ze Steama…');
 
   const reporter: BundleFetchReporter = {
     log: (message, level = 'info') => {
+      if (!isCurrent()) {
+        return;
+      }
       switch (level) {
         case 'success':
           logger.logSuccess(message);
@@ -455,45 +1103,117 @@ const analyze = async () => {
       }
     },
     bundles: (bundleList: BundleInfo[], context) => {
+      if (!isCurrent()) {
+        return;
+      }
       const normalizedBundles: Bundle[] = bundleList.map((bundle) => ({
+        kind: bundle.kind,
         id: bundle.id,
         name: bundle.name,
         games: bundle.games.map((game) => ({ ...game })),
+        pricing: bundle.pricing,
+        tagProfile: bundle.tagProfile,
+        tagMatch: bundle.tagMatch,
+        ownAppIds: bundle.ownAppIds,
+        ownGames: bundle.ownGames?.map((game) => ({ ...game })),
       }));
       logger.setBundles(normalizedBundles, { isFinal: context.isFinal });
     },
     detail: (entry) => {
-      logger.addDetail(entry);
+      if (isCurrent()) {
+        logger.addDetail(entry);
+      }
     },
     progress: (info) => {
-      logger.setProgress(info);
+      if (isCurrent()) {
+        logger.setProgress(info);
+      }
+    },
+    proxyStats: (stats) => {
+      if (isCurrent()) {
+        logger.setProxyStats(stats);
+      }
     },
   };
 
+  const countries = parseCountryCodes(countryInput.value);
+  countryInput.value = countries.join(', ');
+  const language = languageSelect.value;
+
   try {
-    const bundles = await fetchBundleNames(id, { reporter });
+    const fetchOptions = {
+      reporter,
+      signal: controller.signal,
+      forceRefresh: forceRefreshInput.checked,
+      ...recorder?.fetchOptions,
+      reviews: {
+        recent: recentReviewsInput.checked,
+        languages: reviewLanguagesInput.value.split(/[\s,;]+/).filter(Boolean),
+      },
+    };
+    let bundles: BundleInfo[];
+    if (countries.length > 1) {
+      const results = await client.fetchBundleNamesByRegion(
+        ids,
+        countries.map((countryCode) => ({ countryCode, language })),
+        fetchOptions,
+      );
+      bundles = results[0]?.bundles ?? [];
+      logger.setRegionComparison(countries, compareBundlesAcrossRegions(results));
+    } else {
+      bundles = await client.fetchBundleNamesForApps(ids, { ...fetchOptions, countryCode: countries[0], language });
+    }
     if (bundles.length) {
-      logger.logSuccess(`Otrzymano ${bundles.length} bundli powiązanych z grą.`);
+      logger.logSuccess(
+        `Otrzymano ${bundles.length} bundli powiązanych z ${ids.length > 1 ? 'Twoimi grami' : 'grą'}.`,
+      );
     } else {
       logger.logWarning('Źródła nie zwróciły żadnych bundli dla tego AppID.');
     }
     logger.setBundles(bundles, { isFinal: true });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Nieznany błąd';
+    if (error instanceof BundleFetchAbortError || !isCurrent()) {
+      return;
+    }
     logger.logError('Wystąpił błąd podczas pobierania bundli.');
-    logger.setError(message);
+    logger.setError(describeFailure(error));
   } finally {
-    setAnalyzing(false);
-    logger.setProgress(null);
+    if (isCurrent()) {
+      activeAnalysis = null;
+      setAnalyzing(false);
+      logger.setProgress(null);
+      if (recorder) {
+        void offerTrafficDownload(recorder, ids.join('-'));
+      }
+    }
   }
 };
 
+itemTypeFilterSelect.addEventListener('change', () => {
+  logger.setItemTypeFilter(itemTypeFilterSelect.value as ItemTypeFilter);
+});
+
+bundleSortSelect.addEventListener('change', () => {
+  logger.setBundleSort(bundleSortSelect.value as BundleSort);
+});
+
+ownedAppsInput.addEventListener('change', () => {
+  logger.setOwnedAppIds(ownedAppsInput.value.split(/[\s,;]+/).filter((value) => /^\d+$/.test(value)));
+});
+
+output.addEventListener('change', (event) => {
+  const input = event.target;
+  if (input instanceof HTMLInputElement && input.dataset.targetApp) {
+    logger.setTargetApp(input.dataset.targetApp, input.checked);
+  }
+});
+
 analyzeButton.addEventListener('click', () => {
   void analyze();
 });
 
 appIdInput.addEventListener('keydown', (event: KeyboardEvent) => {
-  if (event.key === 'Enter' && !analyzeButton.disabled) {
+  if (event.key === 'Enter') {
     void analyze();
   }
 });
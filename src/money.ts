@@ -0,0 +1,108 @@
+import type { Money } from './bundles';
+
+// Longer symbols first so that `CDN$` is not read as `$`.
+const CURRENCY_SYMBOLS: Array<[string, string]> = [
+  ['CDN$', 'CAD'],
+  ['A$', 'AUD'],
+  ['NZ$', 'NZD'],
+  ['HK$', 'HKD'],
+  ['NT$', 'TWD'],
+  ['S$', 'SGD'],
+  ['R$', 'BRL'],
+  ['Mex$', 'MXN'],
+  ['CHF', 'CHF'],
+  ['zł', 'PLN'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['¥', 'JPY'],
+  ['₩', 'KRW'],
+  ['₽', 'RUB'],
+  ['₴', 'UAH'],
+  ['₹', 'INR'],
+  ['₺', 'TRY'],
+  ['$', 'USD'],
+];
+
+const EURO_COUNTRIES = [
+  'at', 'be', 'cy', 'de', 'ee', 'es', 'fi', 'fr', 'gr', 'hr', 'ie', 'it', 'lt', 'lu', 'lv', 'mt', 'nl', 'pt', 'si', 'sk',
+];
+
+// Store currency per country code, used when a page carries prices without a currency.
+const COUNTRY_CURRENCIES: Record<string, string> = {
+  ...Object.fromEntries(EURO_COUNTRIES.map((country) => [country, 'EUR'])),
+  us: 'USD',
+  pl: 'PLN',
+  gb: 'GBP',
+  ch: 'CHF',
+  no: 'NOK',
+  ca: 'CAD',
+  au: 'AUD',
+  nz: 'NZD',
+  br: 'BRL',
+  mx: 'MXN',
+  jp: 'JPY',
+  kr: 'KRW',
+  cn: 'CNY',
+  in: 'INR',
+  ru: 'RUB',
+  ua: 'UAH',
+};
+
+export function currencyForCountry(countryCode: string): string | null {
+  return COUNTRY_CURRENCIES[countryCode.trim().toLowerCase()] ?? null;
+}
+
+/** Reads amounts such as `$42.88`, `42,88€` or `1 234,56 zł`. */
+export function parseMoneyText(text: string | null | undefined): Money | null {
+  if (!text) {
+    return null;
+  }
+  const numeric = text.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(numeric)) {
+    return null;
+  }
+  const decimals = numeric.match(/[.,](\d{1,2})$/);
+  const integerPart = (decimals ? numeric.slice(0, -decimals[0].length) : numeric).replace(/[.,]/g, '');
+  const amount = Number(decimals ? `${integerPart || '0'}.${decimals[1]}` : integerPart);
+  if (!Number.isFinite(amount)) {
+    return null;
+  }
+  const symbol = CURRENCY_SYMBOLS.find(([candidate]) => text.includes(candidate));
+  return { amount, currency: symbol ? symbol[1] : null };
+}
+
+export function withCurrency(money: Money | null, currency: string | null): Money | null {
+  return money && !money.currency && currency ? { ...money, currency } : money;
+}
+
+/**
+ * Amounts in different known currencies cannot be combined (undefined); an unknown currency
+ * adopts the other one.
+ */
+export function commonCurrency(values: Money[]): string | null | undefined {
+  const known = new Set(values.map((value) => value.currency).filter((currency) => currency !== null));
+  if (known.size > 1) {
+    return undefined;
+  }
+  return known.size ? [...known][0] : null;
+}
+
+export function sumMoney(values: Money[]): Money | null {
+  const currency = commonCurrency(values);
+  if (!values.length || currency === undefined) {
+    return null;
+  }
+  return { amount: roundAmount(values.reduce((total, value) => total + value.amount, 0)), currency };
+}
+
+export function subtractMoney(left: Money | null, right: Money | null): Money | null {
+  if (!left || !right) {
+    return null;
+  }
+  const currency = commonCurrency([left, right]);
+  return currency === undefined ? null : { amount: roundAmount(left.amount - right.amount), currency };
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,35 @@
+import { expect, test } from 'vitest';
+
+import { analyseBundleOverlap } from './overlap';
+import { bundleFixture, gameFixture } from './testFixtures';
+
+const games = (appIds: string[]) => appIds.map((appId) => gameFixture({ appId }));
+
+test('analyseBundleOverlap counts shared partners, Jaccard similarity and unique games', () => {
+  const overlap = analyseBundleOverlap([
+    bundleFixture({ id: '1', games: games(['10', '20', '30']) }),
+    bundleFixture({ id: '2', games: games(['20', '30', '40']) }),
+    bundleFixture({ id: '3', games: games(['30', '50', '30']) }),
+    bundleFixture({ id: '4' }),
+  ]);
+
+  expect(overlap.partners.map(({ appId, count, share, bundleIndices }) => [appId, count, share, bundleIndices])).toEqual([
+    ['30', 3, 0.75, [0, 1, 2]],
+    ['20', 2, 0.5, [0, 1]],
+    ['10', 1, 0.25, [0]],
+    ['40', 1, 0.25, [1]],
+    ['50', 1, 0.25, [2]],
+  ]);
+  expect(overlap.similarity).toEqual([
+    [1, 0.5, 0.25, 0],
+    [0.5, 1, 0.25, 0],
+    [0.25, 0.25, 1, 0],
+    [0, 0, 0, null],
+  ]);
+  expect(overlap.bundles.map(({ id, uniqueAppIds }) => [id, uniqueAppIds])).toEqual([
+    ['1', ['10']],
+    ['2', ['40']],
+    ['3', ['50']],
+    ['4', []],
+  ]);
+});
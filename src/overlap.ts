@@ -0,0 +1,73 @@
+import type { BundleInfo, BundleKind } from './bundles';
+
+export interface PartnerFrequency {
+  appId: string;
+  name: string | null;
+  // Number of bundles the app appears in, and their share of all analysed bundles.
+  count: number;
+  share: number;
+  // Indices into `BundleOverlap.bundles`.
+  bundleIndices: number[];
+}
+
+export interface BundleOverlapEntry {
+  kind: BundleKind;
+  id: string;
+  name: string;
+  // Apps no other analysed bundle contains.
+  uniqueAppIds: string[];
+}
+
+export interface BundleOverlap {
+  bundles: BundleOverlapEntry[];
+  // Jaccard similarity of the bundles' app sets, in `bundles` order; null when both sets are empty.
+  similarity: Array<Array<number | null>>;
+  // Most frequent first.
+  partners: PartnerFrequency[];
+}
+
+/** Which partners the analysed bundles share, to show where the same apps keep coming back. */
+export function analyseBundleOverlap(bundles: BundleInfo[]): BundleOverlap {
+  const appSets = bundles.map((bundle) => new Set(bundle.games.map((game) => game.appId)));
+  const partners = new Map<string, PartnerFrequency>();
+
+  bundles.forEach((bundle, index) => {
+    for (const game of bundle.games) {
+      const partner = partners.get(game.appId) ?? {
+        appId: game.appId,
+        name: game.name,
+        count: 0,
+        share: 0,
+        bundleIndices: [],
+      };
+      if (!partner.bundleIndices.includes(index)) {
+        partner.bundleIndices.push(index);
+        partner.count += 1;
+      }
+      partner.name ??= game.name;
+      partners.set(game.appId, partner);
+    }
+  });
+
+  return {
+    bundles: bundles.map((bundle, index) => ({
+      kind: bundle.kind,
+      id: bundle.id,
+      name: bundle.name,
+      uniqueAppIds: Array.from(appSets[index]).filter((appId) => partners.get(appId)?.count === 1),
+    })),
+    similarity: appSets.map((left) => appSets.map((right) => jaccard(left, right))),
+    partners: Array.from(partners.values())
+      .map((partner) => ({ ...partner, share: partner.count / bundles.length }))
+      .sort((left, right) => right.count - left.count || Number(left.appId) - Number(right.appId)),
+  };
+}
+
+function jaccard(left: Set<string>, right: Set<string>): number | null {
+  const union = new Set([...left, ...right]).size;
+  if (!union) {
+    return null;
+  }
+  const shared = Array.from(left).filter((appId) => right.has(appId)).length;
+  return shared / union;
+}
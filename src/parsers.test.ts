@@ -0,0 +1,383 @@
+import { expect, test } from 'vitest';
+
+import { detectPageType } from './diagnostics';
+import { findElements, hasClass, parseWithTreeBuilder } from './html';
+import { itemTypeFromAppDetails } from './itemTypes';
+import { parseMoneyText } from './money';
+import {
+  parseBundleGames,
+  parseBundleList,
+  parseBundlePricing,
+  parseBundleTitle,
+  regexParserStrategy,
+  type BundleParserStrategy,
+} from './parsers';
+
+test('parseWithTreeBuilder builds a tolerant tree with decoded text and attributes', () => {
+  const root = parseWithTreeBuilder(`
+    <!DOCTYPE html>
+    <div class="outer one" data-note='a &amp; b'>
+      <script>if (a < b) { document.write("<a>"); }</script>
+      <p>Tom &amp; Jerry<br>second line</span></p>
+      <a href=/first>First <a href="/second">Second</a>
+      <img src="x.png" />
+    </div>
+    <!-- <div class="outer"></div> -->
+  `);
+
+  const outer = findElements(root, (element) => hasClass(element, 'outer'));
+  expect(outer).toHaveLength(1);
+  expect(outer[0].getAttribute('data-note')).toBe('a & b');
+  expect(findElements(root, (element) => element.tagName === 'p')[0].textContent).toBe('Tom & Jerrysecond line');
+
+  const anchors = findElements(root, (element) => element.tagName === 'a');
+  expect(anchors.map((anchor) => [anchor.getAttribute('href'), anchor.textContent.trim()])).toEqual([
+    ['/first', 'First'],
+    ['/second', 'Second'],
+  ]);
+  // The nested anchor closed the first one instead of becoming its child.
+  expect(anchors[0].children).toHaveLength(0);
+  expect(outer[0].children.map((element) => element.tagName)).toEqual(['script', 'p', 'a', 'a', 'img']);
+});
+
+test('DOM strategy handles reordered attributes, nested markup and comma-separated app ids', () => {
+  const html = `
+    <h2 class="pageheader">Valve &amp; Friends</h2>
+    <div data-ds-price-final="999" data-ds-appid="620,1895290" class="tab_item tab_item_package">
+      <a href="/app/620"><img src="portal.jpg" class="tab_item_cap_img"></a>
+      <div class="tab_item_name"><span>Portal 2</span> <em>+ DLC</em></div>
+    </div>
+    <div class="tab_item" data-ds-review-percentage="97" data-ds-appid="400">
+      <div class="tab_item_name">Portal</div>
+    </div>
+  `;
+
+  expect(parseBundleTitle(html)).toEqual({
+    value: 'Valve & Friends',
+    strategy: 'dom',
+    diagnostics: { pageType: 'html', strategy: 'dom', attempted: ['dom'], candidateAnchors: 1, failedFields: [] },
+  });
+  expect(parseBundleGames(html)).toEqual({
+    strategy: 'dom',
+    diagnostics: {
+      pageType: 'html',
+      strategy: 'dom',
+      attempted: ['dom'],
+      candidateAnchors: 2,
+      failedFields: ['imageUrl', 'price', 'reviews', 'itemType', 'platforms', 'tags'],
+    },
+    value: [
+      {
+        appId: '620',
+        name: 'Portal 2 + DLC',
+        imageUrl: 'portal.jpg',
+        reviewCount: null,
+        positiveReviewPercent: null,
+        positiveReviewCount: null,
+        negativeReviewCount: null,
+        price: { amount: 9.99, currency: null },
+        itemType: null,
+        platforms: null,
+        deckCompatibility: null,
+        vrSupport: null,
+        tags: null,
+      },
+      {
+        appId: '400',
+        name: 'Portal',
+        imageUrl: null,
+        reviewCount: null,
+        positiveReviewPercent: 97,
+        positiveReviewCount: null,
+        negativeReviewCount: null,
+        price: null,
+        itemType: null,
+        platforms: null,
+        deckCompatibility: null,
+        vrSupport: null,
+        tags: null,
+      },
+    ],
+  });
+  // The regex strategy only understands anchors with a plain numeric app id.
+  expect(regexParserStrategy.bundleGames(html)).toBeNull();
+});
+
+test('parsers fall back to later strategies and report which one produced the result', () => {
+  const markdown = `Title: Markdown Bundle
+
+Markdown Content:
+Items included in this bundle
+[![Image](https://example.com/blank.gif)](https://store.steampowered.com/app/400/Portal/)
+Portal
+
+More like this`;
+
+  expect(parseBundleTitle(markdown).strategy).toBe('markdown');
+  expect(parseBundleGames(markdown)).toMatchObject({ strategy: 'markdown', value: [{ appId: '400', name: 'Portal' }] });
+  expect(parseBundleGames(markdown).diagnostics).toMatchObject({
+    pageType: 'markdown',
+    attempted: ['dom', 'regex', 'markdown'],
+    candidateAnchors: 1,
+  });
+  expect(parseBundleGames('<p>nothing here</p>')).toEqual({
+    value: [],
+    strategy: null,
+    diagnostics: {
+      pageType: 'html',
+      strategy: null,
+      attempted: ['dom', 'regex', 'markdown'],
+      candidateAnchors: 0,
+      failedFields: ['games'],
+    },
+  });
+
+  const listHtml = `<a data-ds-bundle-data="{&quot;m_rgItems&quot;:[{&quot;m_rgIncludedAppIDs&quot;:[400]}]}" data-ds-bundleid="7">
+    <div><span class="title">Reordered Bundle</span></div>
+  </a>`;
+  expect(parseBundleList(listHtml, '400')).toEqual({
+    value: [{ kind: 'bundle', id: '7', name: 'Reordered Bundle', games: [] }],
+    strategy: 'dom',
+    diagnostics: { pageType: 'html', strategy: 'dom', attempted: ['dom'], candidateAnchors: 1, failedFields: [] },
+  });
+});
+
+test('custom strategies can be plugged in ahead of the defaults', () => {
+  const fixed: BundleParserStrategy = {
+    name: 'fixture',
+    bundleTitle: () => 'Fixture Bundle',
+    bundleGames: () => null,
+    bundleList: () => null,
+  };
+
+  expect(parseBundleTitle('<h2 class="pageheader">Ignored</h2>', [fixed, regexParserStrategy])).toEqual({
+    value: 'Fixture Bundle',
+    strategy: 'fixture',
+    diagnostics: { pageType: 'html', strategy: 'fixture', attempted: ['fixture'], candidateAnchors: 1, failedFields: [] },
+  });
+  expect(
+    parseBundleGames('<a data-ds-appid="10"><div class="tab_item_name">Counter-Strike</div></a>', [
+      fixed,
+      regexParserStrategy,
+    ])
+  ).toMatchObject({ strategy: 'regex', value: [{ appId: '10', name: 'Counter-Strike' }] });
+});
+
+test('bundle pricing is read from the totals table and the purchase box', () => {
+  const page = `
+    <meta itemprop="priceCurrency" content="EUR">
+    <div class="tab_item" data-ds-appid="400">
+      <div class="discount_block" data-price-final="199"><div class="discount_final_price">1,99€</div></div>
+    </div>
+    <div class="game_area_purchase_game">
+      <div class="discount_block game_purchase_discount" data-price-final="4288" data-bundlediscount="10">
+        <div class="discount_original_price">54,98€</div>
+        <div class="discount_final_price">42,88€</div>
+      </div>
+    </div>
+    <div class="package_totals_area">
+      <div class="package_totals_row"><div class="price bundle_final_package_price">54,98€</div></div>
+      <div class="package_totals_row"><div class="price bundle_discount">-22%</div></div>
+      <div class="package_totals_row"><div class="price bundle_final_price_with_discount">42,88€</div></div>
+    </div>
+  `;
+  const expected = {
+    finalPrice: { amount: 42.88, currency: 'EUR' },
+    originalTotal: { amount: 54.98, currency: 'EUR' },
+    discountPercent: 22,
+    savings: { amount: 12.1, currency: 'EUR' },
+  };
+
+  expect(parseBundlePricing(page)).toEqual({
+    value: expected,
+    strategy: 'dom',
+    diagnostics: { pageType: 'html', strategy: 'dom', attempted: ['dom'], candidateAnchors: 3, failedFields: [] },
+  });
+  expect(regexParserStrategy.bundlePricing?.(page)).toEqual(expected);
+
+  const purchaseBoxOnly = page.slice(0, page.indexOf('<div class="package_totals_area">'));
+  expect(parseBundlePricing(purchaseBoxOnly).value).toEqual({ ...expected, discountPercent: 10 });
+
+  expect(parseMoneyText('CDN$ 1,234.50')).toEqual({ amount: 1234.5, currency: 'CAD' });
+  expect(parseMoneyText('1 234,56 zł')).toEqual({ amount: 1234.56, currency: 'PLN' });
+  expect(parseMoneyText('¥ 1,980')).toEqual({ amount: 1980, currency: 'JPY' });
+  expect(parseMoneyText('Free')).toBeNull();
+});
+
+test('bundle list pricing is decoded from data-ds-bundle-data', () => {
+  const data = {
+    m_nDiscountPct: 15,
+    m_rgItems: [
+      { m_rgIncludedAppIDs: [400], m_nBasePriceInCents: 999, m_nFinalPriceInCents: 999 },
+      { m_rgIncludedAppIDs: [620], m_nBasePriceInCents: 1999, m_nFinalPriceInCents: 999 },
+    ],
+  };
+  const html = `<a data-ds-bundleid="7" data-ds-bundle-data="${JSON.stringify(data).replace(/"/g, '&quot;')}">
+    <span class="title">Priced Bundle</span>
+  </a>`;
+
+  const [bundle] = parseBundleList(html, '400').value;
+  expect(bundle.pricing).toEqual({
+    finalPrice: { amount: 16.98, currency: null },
+    originalTotal: { amount: 29.98, currency: null },
+    discountPercent: 15,
+    savings: { amount: 13, currency: null },
+  });
+  expect(regexParserStrategy.bundleList(html, '400')?.[0].pricing).toEqual(bundle.pricing);
+});
+
+test('bundle items are classified from badges, item keys, parent links and names', () => {
+  // Unbadged apps stay unclassified until appdetails settles them.
+  const html = `
+    <div class="tab_item" data-ds-appid="1190970" data-ds-itemkey="App_1190970">
+      <div class="tab_item_name">House Flipper 2</div>
+    </div>
+    <div class="tab_item" data-ds-appid="2000" data-ds-itemkey="App_2000">
+      <div class="tab_item_name">Garden Flipper</div>
+      <span class="ds_flag ds_dlc_flag">DLC</span>
+    </div>
+    <div class="tab_item" data-ds-appid="2001">
+      <div class="tab_item_name">House Flipper 2 Original Soundtrack</div>
+      <a class="tab_item_parent" href="https://store.steampowered.com/app/1190970/">Base game</a>
+    </div>
+    <div class="tab_item" data-ds-appid="2002" data-ds-parent-appid="1190970">
+      <div class="tab_item_name">Pets Pack</div>
+    </div>
+    <div class="tab_item" data-ds-appid="2003"><div class="tab_item_name">House Flipper 2 Demo</div></div>
+    <div class="tab_item" data-ds-appid="2004" data-ds-itemkey="Sub_88"><div class="tab_item_name">Starter Pack</div></div>
+  `;
+  expect(parseBundleGames(html).value.map((game) => game.itemType)).toEqual([null, 'dlc', 'soundtrack', 'dlc', 'demo', null]);
+
+  const anchors = `
+    <a data-ds-appid="2000"><span class="ds_dlc_flag">DLC</span><span class="tab_item_name">Garden Flipper</span></a>
+    <a data-ds-appid="2002" data-ds-parent-appid="1190970"><span class="tab_item_name">Pets Pack</span></a>
+    <a data-ds-appid="2004" data-ds-itemkey="Sub_88"><span class="tab_item_name">Starter Pack</span></a>
+  `;
+  expect(regexParserStrategy.bundleGames(anchors)?.map((game) => game.itemType)).toEqual(['dlc', 'dlc', null]);
+});
+
+test('itemTypeFromAppDetails maps Steam app types and software genres', () => {
+  expect(itemTypeFromAppDetails({ type: 'music' })).toBe('soundtrack');
+  expect(itemTypeFromAppDetails({ type: 'dlc', genres: [{ id: '57' }] })).toBe('dlc');
+  expect(itemTypeFromAppDetails({ type: 'game', genres: [{ id: '57' }, { id: '60' }] })).toBe('tool');
+  expect(itemTypeFromAppDetails({ type: 'game', genres: [{ id: '57' }, { id: '23' }] })).toBe('game');
+  expect(itemTypeFromAppDetails({ type: 'advertising' })).toBeNull();
+});
+
+test('platforms, Steam Deck compatibility and VR support are read from HTML and markdown', () => {
+  const html = `
+    <a class="tab_item" data-ds-appid="1190970" data-ds-steam-deck-compat-category="3">
+      <div class="tab_item_name">House Flipper 2</div>
+      <div class="tab_item_details">
+        <span class="platform_img win"></span><span class="platform_img linux"></span>
+      </div>
+    </a>
+    <a class="tab_item" data-ds-appid="2000">
+      <div class="tab_item_name">Flipper VR</div>
+      <span class="platform_img win"></span><span class="platform_img vr_required"></span>
+      <span class="deck_compat_unsupported"></span>
+    </a>
+  `;
+  const expected = [
+    { platforms: ['windows', 'linux'], deckCompatibility: 'verified', vrSupport: null },
+    { platforms: ['windows'], deckCompatibility: 'unsupported', vrSupport: 'required' },
+  ];
+
+  expect(parseBundleGames(html).value).toMatchObject(expected);
+  expect(regexParserStrategy.bundleGames(html)).toMatchObject(expected);
+
+  const markdown = `Markdown Content:
+Items included in this bundle
+[![Image](https://example.com/blank.gif)](https://store.steampowered.com/app/1190970/House_Flipper_2/)
+Windows, macOS, SteamOS + Linux
+Steam Deck Playable
+$39.99
+House Flipper 2
+[![Image](https://example.com/blank.gif)](https://store.steampowered.com/app/2000/Flipper_VR/)
+VR Only
+Flipper VR
+More like this`;
+
+  expect(parseBundleGames(markdown).value).toMatchObject([
+    { name: 'House Flipper 2', platforms: ['windows', 'mac', 'linux'], deckCompatibility: 'playable', vrSupport: null },
+    { name: 'Flipper VR', platforms: null, deckCompatibility: null, vrSupport: 'required' },
+  ]);
+});
+
+test('item tags are resolved from page tag links, embedded JSON and the bundled dictionary', () => {
+  const html = `
+    <script>InitAppTagModal(1, [{"tagid":123456,"name":"Flipping \\u0026 Fixing"}]);</script>
+    <a class="app_tag" data-tagid="1716">Roguelike (page)</a>
+    <a class="tab_item" data-ds-appid="1190970" data-ds-tagids="[1716,123456,492,999999]">
+      <div class="tab_item_name">House Flipper 2</div>
+    </a>
+    <a class="tab_item" data-ds-appid="2000"><div class="tab_item_name">Untagged</div></a>
+  `;
+  const expected = [
+    {
+      tags: [
+        { id: 1716, name: 'Roguelike (page)' },
+        { id: 123456, name: 'Flipping & Fixing' },
+        { id: 492, name: 'Indie' },
+        { id: 999999, name: null },
+      ],
+    },
+    { tags: null },
+  ];
+
+  expect(parseBundleGames(html).value).toMatchObject(expected);
+  expect(regexParserStrategy.bundleGames(html)).toMatchObject(expected);
+});
+
+test('markdown items carry prices, review snippets and the real capsule image', () => {
+  const markdown = `Markdown Content:
+Items included in this bundle
+[![Image 1](https://store.akamai.steamstatic.com/public/images/blank.gif)](https://store.steampowered.com/app/400/Portal/)
+![Image 2](https://shared.akamai.steamstatic.com/store_item_assets/steam/apps/400/capsule_184x69.jpg?t=1)
+Very Positive
+96% of the 123,456 user reviews for this game are positive.
+-40%
+19,99€
+11,99€
+Portal
+[![Image 3](https://store.akamai.steamstatic.com/public/images/blank.gif)](https://store.steampowered.com/app/620/Portal_2/)
+Mostly Positive (2,048)
+CDN$ 12.50
+Portal 2
+More like this`;
+
+  expect(parseBundleGames(markdown).value).toMatchObject([
+    {
+      appId: '400',
+      name: 'Portal',
+      imageUrl: 'https://shared.akamai.steamstatic.com/store_item_assets/steam/apps/400/capsule_184x69.jpg?t=1',
+      reviewCount: 123456,
+      positiveReviewPercent: 96,
+      price: { amount: 11.99, currency: 'EUR' },
+    },
+    {
+      appId: '620',
+      name: 'Portal 2',
+      imageUrl: 'https://steamcdn-a.akamaihd.net/steam/apps/620/capsule_184x69.jpg',
+      reviewCount: 2048,
+      positiveReviewPercent: null,
+      price: { amount: 12.5, currency: 'CAD' },
+    },
+  ]);
+});
+
+test('detectPageType tells markdown, age gates and error pages from raw HTML', () => {
+  expect(detectPageType('<h2 class="pageheader">Bundle</h2>')).toBe('html');
+  expect(detectPageType('Title: Bundle\n\nURL Source: https://store.steampowered.com/bundle/1/\n\nMarkdown Content:\n')).toBe(
+    'markdown'
+  );
+  expect(detectPageType('URL Source: https://store.steampowered.com/agecheck/bundle/1/\n\nMarkdown Content:\n')).toBe(
+    'ageGate'
+  );
+  expect(detectPageType('<div id="app_agegate" class="app_agegate">Please enter your birth date</div>')).toBe('ageGate');
+  expect(detectPageType('<div id="error_box">An error was encountered while processing your request:</div>')).toBe(
+    'errorPage'
+  );
+  expect(detectPageType('Warning: Target URL returned error 502: Bad Gateway')).toBe('errorPage');
+  expect(detectPageType('  \n')).toBe('empty');
+});
@@ -0,0 +1,831 @@
+import type { BundleGameInfo, BundleInfo, BundlePricing, Money } from './bundles';
+import { countMatches, detectPageType, type ParseDiagnostics } from './diagnostics';
+import {
+  decodeHtmlEntities,
+  findElement,
+  findElements,
+  hasClass,
+  parseMarkup,
+  type MarkupElement,
+} from './html';
+import { classifyBundleItem } from './itemTypes';
+import { commonCurrency, parseMoneyText, subtractMoney, withCurrency } from './money';
+import { isPlatformLabel, platformSupportFromMarkup, platformSupportFromText } from './platforms';
+import { collectPageTagNames, parseTagIds, resolveTags } from './tags';
+
+/**
+ * One way of reading Steam pages. Every method returns null when the strategy cannot make sense
+ * of the body, which hands the body over to the next strategy.
+ */
+export interface BundleParserStrategy {
+  readonly name: string;
+  bundleTitle(body: string): string | null;
+  bundleGames(body: string): BundleGameInfo[] | null;
+  bundleList(html: string, appId: string): BundleInfo[] | null;
+  // Optional so that strategies written before pricing support keep working.
+  bundlePricing?(body: string): BundlePricing | null;
+}
+
+export interface ParseResult<T> {
+  value: T;
+  // Name of the strategy that produced `value`, or null when none of them did.
+  strategy: string | null;
+  diagnostics: ParseDiagnostics;
+}
+
+interface ParseInspection<T> {
+  // Counts what the strategies had to work with.
+  anchors: RegExp;
+  failedFields(value: T): string[];
+}
+
+const TITLE_REGEX = /<span class="title">([^<]+)<\/span>/i;
+const BUNDLE_ANCHOR_REGEX = /<a[^>]*data-ds-bundleid="(\d+)"[^>]*data-ds-bundle-data="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi;
+const BUNDLE_ITEM_REGEX =
+  /<a\b([^>]*?)data-ds-appid="(\d+)"([^>]*)>([\s\S]*?)<\/a>/gi;
+
+const REVIEW_COUNT_ATTRIBUTES = ['data-ds-review-count', 'data-ds-reviewcount', 'data-ds-review_count'];
+const REVIEW_PERCENT_ATTRIBUTES = [
+  'data-ds-review-percentage',
+  'data-ds-reviewpercent',
+  'data-ds-review_percent',
+  'data-ds-reviewscore',
+];
+const PRICE_ATTRIBUTES = ['data-ds-price-final', 'data-ds-price', 'data-ds-price-final-usd'];
+const PARENT_APP_ATTRIBUTES = ['data-ds-parent-appid', 'data-parent-appid'];
+const APP_LINK_REGEX = /\/app\/(\d+)/i;
+const DECK_CATEGORY_ATTRIBUTE = 'data-ds-steam-deck-compat-category';
+// A price alone on its line: `$9.99`, `CDN$ 12.50`, `27,99€` or `1 234,56 zł`.
+const MARKDOWN_PRICE_LINE_REGEX = /^(?:[A-Z]{0,3}\$|[€£¥₽₩₹₺])\s*[\d.,\s]+$|^[\d.,\s]+\s*(?:€|zł|₽|₴|CHF|kr)$/i;
+// Steam review summaries such as `Very Positive` or `Mostly Positive (1,234)`.
+const REVIEW_LABEL_REGEX =
+  /^(?:(?:overwhelmingly |very |mostly )?(?:positive|negative)|mixed)(?:\s*\(([\d,.\s]+)\))?$/i;
+// Package pages may lack a page header; the purchase box names them, e.g. `<h1>Buy Valve Complete Pack</h1>`.
+const TITLE_ANCHOR_REGEX = /class="[^"]*\bpageheader\b|<span class="title">|<h1\b|^\s*Title:/gim;
+const GAME_ANCHOR_REGEX = /data-ds-appid="|\]\(https?:\/\/store\.steampowered\.com\/app\/\d+/gi;
+const LIST_ANCHOR_REGEX = /data-ds-bundleid="|store\.steampowered\.com\/(?:bundle|sub)\/\d+/gi;
+const GAME_FIELDS: Array<[string, (game: BundleGameInfo) => boolean]> = [
+  ['name', (game) => game.name !== null],
+  ['imageUrl', (game) => game.imageUrl !== null],
+  ['price', (game) => game.price !== null],
+  ['reviews', (game) => game.reviewCount !== null && game.positiveReviewPercent !== null],
+  ['itemType', (game) => game.itemType !== null],
+  ['platforms', (game) => game.platforms !== null],
+  ['tags', (game) => game.tags !== null],
+];
+const PURCHASE_HEADER_REGEX = /class="[^"]*\bgame_area_purchase_game\b[^"]*"[\s\S]*?<h1[^>]*>([^<]+)<\/h1>/i;
+
+// Class names of the "Price of individual products / Bundle discount / Your cost / Your savings" rows.
+const BUNDLE_TOTAL_CLASSES = {
+  original: 'bundle_final_package_price',
+  discount: 'bundle_discount',
+  final: 'bundle_final_price_with_discount',
+  savings: 'bundle_savings',
+} as const;
+const BUNDLE_TOTAL_ANCHOR_REGEX = new RegExp(`\\b(?:${Object.values(BUNDLE_TOTAL_CLASSES).join('|')})\\b`, 'g');
+
+interface RawBundlePricing {
+  final?: string | null;
+  original?: string | null;
+  discount?: string | null;
+  savings?: string | null;
+  finalCents?: string | null;
+  bundleDiscount?: string | null;
+  currency?: string | null;
+}
+
+interface BundleData {
+  m_nDiscountPct?: unknown;
+  m_rgItems?: unknown;
+}
+
+export const domParserStrategy: BundleParserStrategy = {
+  name: 'dom',
+  bundleTitle(body) {
+    const root = parseMarkup(body);
+    const header = findElement(root, (element) => element.tagName === 'h2' && hasClass(element, 'pageheader'));
+    const purchaseArea = findElement(root, (element) => hasClass(element, 'game_area_purchase_game'));
+    const purchaseHeader = purchaseArea && findElement(purchaseArea, (element) => element.tagName === 'h1');
+    const title = findElement(root, (element) => element.tagName === 'title');
+    for (const element of [header, purchaseHeader, title]) {
+      const value = element === purchaseHeader ? stripPurchasePrefix(element?.textContent) : element?.textContent.trim();
+      if (value) {
+        return value;
+      }
+    }
+    return null;
+  },
+  bundleGames(body) {
+    const root = parseMarkup(body);
+    const currency = findPageCurrency(root);
+    const tagNames = collectPageTagNames(body);
+    let items = findElements(
+      root,
+      (element) => hasClass(element, 'tab_item') && element.getAttribute('data-ds-appid') !== null
+    );
+    if (!items.length) {
+      items = findElements(
+        root,
+        (element) => element.tagName === 'a' && element.getAttribute('data-ds-appid') !== null
+      );
+    }
+
+    const games: BundleGameInfo[] = [];
+    for (const item of items) {
+      // Packages list all of their apps, e.g. `data-ds-appid="620,1895290"`; the first one is the base game.
+      const appId = (item.getAttribute('data-ds-appid') ?? '')
+        .split(',')
+        .map((value) => value.trim())
+        .find((value) => /^\d+$/.test(value));
+      if (!appId) {
+        continue;
+      }
+      const nameElement = findElement(item, (element) => hasClass(element, 'tab_item_name'));
+      const imageElement = findElement(
+        item,
+        (element) =>
+          element.tagName === 'img' &&
+          (hasClass(element, 'tab_item_cap_img') || hasClass(element, 'bundle_capsule_image'))
+      );
+      const name = nameElement?.textContent.trim() || null;
+      const descendants = [item, ...findElements(item, () => true)];
+      const classNames = descendants.flatMap((element) => (element.getAttribute('class') ?? '').split(/\s+/));
+      const linkedAppIds = descendants
+        .map((element) => element.getAttribute('href')?.match(APP_LINK_REGEX)?.[1])
+        .filter((value): value is string => Boolean(value));
+      games.push({
+        appId,
+        name,
+        imageUrl: imageElement?.getAttribute('src')?.trim() || null,
+        reviewCount: readAttribute(item, REVIEW_COUNT_ATTRIBUTES, parseInteger),
+        positiveReviewPercent: readAttribute(item, REVIEW_PERCENT_ATTRIBUTES, parseInteger),
+        positiveReviewCount: null,
+        negativeReviewCount: null,
+        price: toMoney(readAttribute(item, PRICE_ATTRIBUTES, parsePrice), currency),
+        itemType: classifyBundleItem({
+          appId,
+          name,
+          classNames,
+          parentAppId:
+            PARENT_APP_ATTRIBUTES.map((attribute) => item.getAttribute(attribute)).find(Boolean) ??
+            linkedAppIds.find((linked) => linked !== appId) ??
+            null,
+        }),
+        ...platformSupportFromMarkup(classNames, item.getAttribute(DECK_CATEGORY_ATTRIBUTE)),
+        tags: resolveTags(parseTagIds(item.getAttribute('data-ds-tagids')), tagNames),
+      });
+    }
+    return games.length ? games : null;
+  },
+  bundleList(html, appId) {
+    const numericId = Number(appId);
+    if (!Number.isFinite(numericId)) {
+      return null;
+    }
+    const anchors = findElements(
+      parseMarkup(html),
+      (element) =>
+        element.getAttribute('data-ds-bundleid') !== null && element.getAttribute('data-ds-bundle-data') !== null
+    );
+    if (!anchors.length) {
+      return null;
+    }
+
+    const bundles: BundleInfo[] = [];
+    for (const anchor of anchors) {
+      const bundleId = anchor.getAttribute('data-ds-bundleid')?.trim() ?? '';
+      const data = parseBundleData(anchor.getAttribute('data-ds-bundle-data') ?? '');
+      if (!/^\d+$/.test(bundleId) || !data || !bundleDataIncludesApp(data, numericId)) {
+        continue;
+      }
+      const name = findElement(anchor, (element) => hasClass(element, 'title'))?.textContent.trim();
+      if (name) {
+        bundles.push(
+          withPricing({ kind: 'bundle', id: bundleId, name, games: [] }, pricingFromBundleData(data, anchor.getAttribute('data-price-final')))
+        );
+      }
+    }
+    return bundles;
+  },
+  bundlePricing(body) {
+    const root = parseMarkup(body);
+    const textOf = (scope: MarkupElement | null, className: string) =>
+      (scope && findElement(scope, (element) => hasClass(element, className))?.textContent.trim()) || null;
+    // Item rows carry their own discount blocks, so the generic price fallback is limited to the purchase box.
+    const purchaseArea = findElement(root, (element) => hasClass(element, 'game_area_purchase_game'));
+    const discountBlock =
+      purchaseArea &&
+      findElement(
+        purchaseArea,
+        (element) => hasClass(element, 'discount_block') && element.getAttribute('data-price-final') !== null
+      );
+
+    return buildPricing({
+      final:
+        textOf(root, BUNDLE_TOTAL_CLASSES.final) ??
+        textOf(purchaseArea, 'discount_final_price') ??
+        textOf(purchaseArea, 'game_purchase_price'),
+      original: textOf(root, BUNDLE_TOTAL_CLASSES.original) ?? textOf(purchaseArea, 'discount_original_price'),
+      discount: textOf(root, BUNDLE_TOTAL_CLASSES.discount),
+      savings: textOf(root, BUNDLE_TOTAL_CLASSES.savings),
+      finalCents: discountBlock?.getAttribute('data-price-final'),
+      bundleDiscount: discountBlock?.getAttribute('data-bundlediscount'),
+      currency: findPageCurrency(root),
+    });
+  },
+};
+
+export const regexParserStrategy: BundleParserStrategy = {
+  name: 'regex',
+  bundleTitle(body) {
+    const patterns = [
+      /<h2[^>]*class="pageheader"[^>]*>([^<]+)<\/h2>/i,
+      PURCHASE_HEADER_REGEX,
+      /<title[^>]*>([^<]+)<\/title>/i,
+    ];
+    for (const pattern of patterns) {
+      const match = body.match(pattern);
+      if (match) {
+        const text = decodeHtmlEntities(match[1]);
+        const value = pattern === PURCHASE_HEADER_REGEX ? stripPurchasePrefix(text) : text.trim();
+        if (value) {
+          return value;
+        }
+      }
+    }
+    return null;
+  },
+  bundleGames(html) {
+    BUNDLE_ITEM_REGEX.lastIndex = 0;
+    const currency = matchPageCurrency(html);
+    const tagNames = collectPageTagNames(html);
+    const games: BundleGameInfo[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = BUNDLE_ITEM_REGEX.exec(html)) !== null) {
+      const [, leadingAttributes, appId, trailingAttributes, innerHtml] = match;
+      if (!appId) {
+        continue;
+      }
+      const attributes = `${leadingAttributes ?? ''} ${trailingAttributes ?? ''}`;
+      const name = extractGameName(innerHtml);
+      const classNames = extractClassNames(`${attributes} ${innerHtml}`);
+      games.push({
+        appId,
+        name,
+        imageUrl: extractImageUrl(innerHtml),
+        reviewCount: parseIntegerAttribute(attributes, REVIEW_COUNT_ATTRIBUTES),
+        positiveReviewPercent: parseIntegerAttribute(attributes, REVIEW_PERCENT_ATTRIBUTES),
+        positiveReviewCount: null,
+        negativeReviewCount: null,
+        price: toMoney(parsePriceAttribute(attributes, PRICE_ATTRIBUTES), currency),
+        itemType: classifyBundleItem({
+          appId,
+          name,
+          classNames,
+          parentAppId: extractParentAppId(attributes, innerHtml, appId),
+        }),
+        ...platformSupportFromMarkup(
+          classNames,
+          attributes.match(new RegExp(`${DECK_CATEGORY_ATTRIBUTE}="(\\d+)"`, 'i'))?.[1] ?? null
+        ),
+        tags: resolveTags(parseTagIds(attributes.match(/data-ds-tagids="([^"]*)"/i)?.[1]), tagNames),
+      });
+    }
+
+    return games.length ? games : null;
+  },
+  bundleList(html, appId) {
+    BUNDLE_ANCHOR_REGEX.lastIndex = 0;
+    const numericId = Number(appId);
+    if (!Number.isFinite(numericId)) {
+      return null;
+    }
+
+    const bundles: BundleInfo[] = [];
+    let matched = false;
+    let match: RegExpExecArray | null;
+    while ((match = BUNDLE_ANCHOR_REGEX.exec(html)) !== null) {
+      matched = true;
+      const [anchor, bundleId, encodedData, anchorHtml] = match;
+      const data = parseBundleData(decodeHtmlEntities(encodedData));
+      if (!data || !bundleDataIncludesApp(data, numericId)) {
+        continue;
+      }
+
+      const titleMatch = TITLE_REGEX.exec(anchorHtml);
+      if (!titleMatch) {
+        continue;
+      }
+      const name = decodeHtmlEntities(titleMatch[1]).trim();
+      if (!name) {
+        continue;
+      }
+
+      const priceFinal = anchor.slice(0, anchor.indexOf('>')).match(/data-price-final="(\d+)"/i);
+      bundles.push(withPricing({ kind: 'bundle', id: bundleId, name, games: [] }, pricingFromBundleData(data, priceFinal?.[1] ?? null)));
+    }
+
+    return matched ? bundles : null;
+  },
+  bundlePricing(body) {
+    const classText = (className: string) => {
+      const match = body.match(
+        new RegExp(`class="[^"]*\\b${className}\\b[^"]*"[^>]*>\\s*([^<]+?)\\s*<`, 'i')
+      );
+      return match ? decodeHtmlEntities(match[1]).trim() || null : null;
+    };
+
+    return buildPricing({
+      final: classText(BUNDLE_TOTAL_CLASSES.final),
+      original: classText(BUNDLE_TOTAL_CLASSES.original),
+      discount: classText(BUNDLE_TOTAL_CLASSES.discount),
+      savings: classText(BUNDLE_TOTAL_CLASSES.savings),
+      currency: matchPageCurrency(body),
+    });
+  },
+};
+
+export const markdownParserStrategy: BundleParserStrategy = {
+  name: 'markdown',
+  bundleTitle(body) {
+    const titleMatch = body.match(/^\s*Title:\s*(.+)$/im);
+    if (titleMatch) {
+      const value = decodeHtmlEntities(titleMatch[1]).trim();
+      if (value) {
+        return value;
+      }
+    }
+
+    const markdownMatch = body.match(/Markdown Content:\s*([\s\S]+)/i);
+    if (markdownMatch) {
+      const lines = markdownMatch[1].split(/\r?\n/).map((line) => decodeHtmlEntities(line).trim());
+      const firstLine = lines.find((line) => Boolean(line));
+      if (firstLine) {
+        return firstLine;
+      }
+    }
+
+    return null;
+  },
+  bundleGames(html) {
+    const games = extractBundleGamesFromSanitizedMarkdown(html);
+    return games.length ? games : null;
+  },
+  bundleList() {
+    return null;
+  },
+};
+
+export const DEFAULT_PARSER_STRATEGIES: readonly BundleParserStrategy[] = [
+  domParserStrategy,
+  regexParserStrategy,
+  markdownParserStrategy,
+];
+
+export function parseBundleTitle(
+  body: string,
+  strategies: readonly BundleParserStrategy[] = DEFAULT_PARSER_STRATEGIES,
+): ParseResult<string | null> {
+  return runStrategies(body, strategies, (strategy) => strategy.bundleTitle(body), null, {
+    anchors: TITLE_ANCHOR_REGEX,
+    failedFields: (title) => (title ? [] : ['title']),
+  });
+}
+
+export function parseBundleGames(
+  body: string,
+  strategies: readonly BundleParserStrategy[] = DEFAULT_PARSER_STRATEGIES,
+): ParseResult<BundleGameInfo[]> {
+  return runStrategies(body, strategies, (strategy) => strategy.bundleGames(body), [], {
+    anchors: GAME_ANCHOR_REGEX,
+    failedFields: missingGameFields,
+  });
+}
+
+export function parseBundlePricing(
+  body: string,
+  strategies: readonly BundleParserStrategy[] = DEFAULT_PARSER_STRATEGIES,
+): ParseResult<BundlePricing | null> {
+  return runStrategies(body, strategies, (strategy) => strategy.bundlePricing?.(body) ?? null, null, {
+    anchors: BUNDLE_TOTAL_ANCHOR_REGEX,
+    failedFields: (pricing) => (pricing ? [] : ['pricing']),
+  });
+}
+
+export function parseBundleList(
+  html: string,
+  appId: string,
+  strategies: readonly BundleParserStrategy[] = DEFAULT_PARSER_STRATEGIES,
+): ParseResult<BundleInfo[]> {
+  return runStrategies(html, strategies, (strategy) => strategy.bundleList(html, appId), [], {
+    anchors: LIST_ANCHOR_REGEX,
+    failedFields: (bundles) => (bundles.length ? [] : ['bundles']),
+  });
+}
+
+function runStrategies<T>(
+  body: string,
+  strategies: readonly BundleParserStrategy[],
+  parse: (strategy: BundleParserStrategy) => T | null,
+  fallback: T,
+  inspection: ParseInspection<T>,
+): ParseResult<T> {
+  const attempted: string[] = [];
+  const result = (value: T, strategy: string | null): ParseResult<T> => ({
+    value,
+    strategy,
+    diagnostics: {
+      pageType: detectPageType(body),
+      strategy,
+      attempted,
+      candidateAnchors: countMatches(body, inspection.anchors),
+      failedFields: inspection.failedFields(value),
+    },
+  });
+
+  for (const strategy of strategies) {
+    attempted.push(strategy.name);
+    const value = parse(strategy);
+    if (value !== null) {
+      return result(value, strategy.name);
+    }
+  }
+  return result(fallback, null);
+}
+
+function missingGameFields(games: BundleGameInfo[]): string[] {
+  if (!games.length) {
+    return ['games'];
+  }
+  return GAME_FIELDS.filter(([, isPresent]) => !games.every(isPresent)).map(([field]) => field);
+}
+
+function parseBundleData(rawData: string): BundleData | null {
+  try {
+    const data = JSON.parse(rawData) as unknown;
+    return data && typeof data === 'object' ? (data as BundleData) : null;
+  } catch (error) {
+    void error;
+    return null;
+  }
+}
+
+function bundleDataIncludesApp(data: BundleData, appId: number): boolean {
+  if (!Array.isArray(data.m_rgItems)) {
+    return false;
+  }
+  return data.m_rgItems.some((item: unknown) => {
+    const apps = readItemField(item, 'm_rgIncludedAppIDs');
+    return Array.isArray(apps) && apps.includes(appId);
+  });
+}
+
+function readItemField(item: unknown, field: string): unknown {
+  return item && typeof item === 'object' ? (item as Record<string, unknown>)[field] : undefined;
+}
+
+function pricingFromBundleData(data: BundleData, priceFinalCents: string | null): BundlePricing | null {
+  const items: unknown[] = Array.isArray(data.m_rgItems) ? data.m_rgItems : [];
+  const sumCents = (field: string) => {
+    const values = items.map((item) => readItemField(item, field));
+    return values.length && values.every((value): value is number => typeof value === 'number' && Number.isFinite(value))
+      ? values.reduce((total, value) => total + value, 0)
+      : null;
+  };
+
+  const discountPercent = typeof data.m_nDiscountPct === 'number' ? data.m_nDiscountPct : null;
+  const originalCents = sumCents('m_nBasePriceInCents');
+  const itemFinalCents = sumCents('m_nFinalPriceInCents');
+  let finalCents = sumCents('m_nFinalPriceWithBundleDiscount') ?? parseInteger(priceFinalCents);
+  if (finalCents === null && itemFinalCents !== null && discountPercent !== null) {
+    finalCents = Math.round((itemFinalCents * (100 - discountPercent)) / 100);
+  }
+
+  return completePricing({
+    finalPrice: toMoney(finalCents !== null ? finalCents / 100 : null, null),
+    originalTotal: toMoney(originalCents !== null ? originalCents / 100 : null, null),
+    discountPercent,
+    savings: null,
+  });
+}
+
+function buildPricing(raw: RawBundlePricing): BundlePricing | null {
+  const final = parseMoneyText(raw.final);
+  const original = parseMoneyText(raw.original);
+  const savings = parseMoneyText(raw.savings);
+  const discount = raw.discount?.match(/(\d+(?:[.,]\d+)?)\s*%/);
+
+  const currency = raw.currency?.trim().toUpperCase() || null;
+
+  return completePricing({
+    finalPrice: withCurrency(final ?? toMoney(parsePrice(raw.finalCents), null), currency),
+    originalTotal: withCurrency(original, currency),
+    discountPercent: discount ? Number(discount[1].replace(',', '.')) : parseInteger(raw.bundleDiscount),
+    savings: withCurrency(savings, currency),
+  });
+}
+
+/**
+ * Fills savings from the totals, aligns missing currencies with the known ones and drops pricing
+ * that carries no information at all.
+ */
+export function completePricing(pricing: BundlePricing): BundlePricing | null {
+  const currency =
+    commonCurrency(
+      [pricing.finalPrice, pricing.originalTotal, pricing.savings].filter((value): value is Money => value !== null)
+    ) ?? null;
+  const finalPrice = withCurrency(pricing.finalPrice, currency);
+  const originalTotal = withCurrency(pricing.originalTotal, currency);
+  const savings = withCurrency(pricing.savings, currency) ?? subtractMoney(originalTotal, finalPrice);
+  if (finalPrice === null && originalTotal === null && pricing.discountPercent === null && savings === null) {
+    return null;
+  }
+  return { ...pricing, finalPrice, originalTotal, savings };
+}
+
+function toMoney(amount: number | null, currency: string | null): Money | null {
+  return amount !== null ? { amount, currency } : null;
+}
+
+function findPageCurrency(root: MarkupElement): string | null {
+  const meta = findElement(
+    root,
+    (element) => element.tagName === 'meta' && element.getAttribute('itemprop') === 'priceCurrency'
+  );
+  return meta?.getAttribute('content')?.trim().toUpperCase() || null;
+}
+
+function matchPageCurrency(html: string): string | null {
+  return html.match(/itemprop="priceCurrency"[^>]*content="([A-Z]{3})"/i)?.[1].toUpperCase() ?? null;
+}
+
+function stripPurchasePrefix(text: string | null | undefined): string | null {
+  return text?.trim().replace(/^(?:buy|kup)\s+/i, '').trim() || null;
+}
+
+function withPricing(bundle: BundleInfo, pricing: BundlePricing | null): BundleInfo {
+  return pricing ? { ...bundle, pricing } : bundle;
+}
+
+function readAttribute(
+  element: MarkupElement,
+  names: string[],
+  parse: (rawValue: string | null) => number | null,
+): number | null {
+  for (const name of names) {
+    const parsed = parse(element.getAttribute(name));
+    if (parsed !== null) {
+      return parsed;
+    }
+  }
+  return null;
+}
+
+function extractBundleGamesFromSanitizedMarkdown(html: string): BundleGameInfo[] {
+  const markdownIndex = html.indexOf('Markdown Content:');
+  const source = markdownIndex >= 0 ? html.slice(markdownIndex + 'Markdown Content:'.length) : html;
+
+  const lines = source
+    .split(/\r?\n/)
+    .map((line) => decodeHtmlEntities(line).trim());
+
+  if (!lines.length) {
+    return [];
+  }
+
+  const startIndex = lines.findIndex((line) =>
+    line.toLowerCase().includes('items included in this bundle')
+  );
+  const endIndex = lines.findIndex(
+    (line, index) => index > startIndex && line.toLowerCase().startsWith('more like this')
+  );
+
+  const relevantLines =
+    startIndex >= 0
+      ? lines.slice(startIndex + 1, endIndex > startIndex ? endIndex : undefined)
+      : lines;
+
+  const appLinkRegex = /https?:\/\/store\.steampowered\.com\/app\/(\d+)\//i;
+  const seen = new Set<string>();
+  const games: BundleGameInfo[] = [];
+
+  for (let index = 0; index < relevantLines.length; index += 1) {
+    const line = relevantLines[index];
+    const match = line.match(appLinkRegex);
+    if (!match) {
+      continue;
+    }
+
+    const appId = match[1];
+    if (!appId || seen.has(appId)) {
+      continue;
+    }
+
+    const name = extractNameFromSanitizedLines(relevantLines, index + 1);
+    const nextItemIndex = relevantLines.findIndex(
+      (candidate, candidateIndex) => candidateIndex > index && appLinkRegex.test(candidate)
+    );
+    const itemLines = relevantLines.slice(index + 1, nextItemIndex > index ? nextItemIndex : undefined);
+
+    const reviews = readMarkdownReviews(itemLines);
+
+    games.push({
+      appId,
+      name,
+      imageUrl:
+        findMarkdownCapsule(itemLines, appId) ?? `https://steamcdn-a.akamaihd.net/steam/apps/${appId}/capsule_184x69.jpg`,
+      reviewCount: reviews.reviewCount,
+      positiveReviewPercent: reviews.positiveReviewPercent,
+      positiveReviewCount: null,
+      negativeReviewCount: null,
+      price: readMarkdownPrice(itemLines),
+      // Markdown drops the badges, so only the name can tell; the rest is looked up via appdetails.
+      itemType: classifyBundleItem({ appId, name, classNames: [], parentAppId: null }),
+      ...platformSupportFromText(itemLines),
+      tags: null,
+    });
+
+    seen.add(appId);
+  }
+
+  return games;
+}
+
+// Capsule images the proxy keeps as `![Image 7](https://…/apps/1190970/…/capsule_184x69.jpg?t=…)`.
+function findMarkdownCapsule(lines: string[], appId: string): string | null {
+  for (const line of lines) {
+    const match = line.match(/!\[[^\]]*\]\((https?:\/\/[^)\s]+)\)/);
+    if (match && match[1].includes(`/apps/${appId}/`) && !/blank\.gif/i.test(match[1])) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+/**
+ * Item rows list the price alone on a line, or the discount followed by the original and the
+ * final price (`-30%`, `$39.99`, `$27.99`); the last amount is what the item costs.
+ */
+function readMarkdownPrice(lines: string[]): Money | null {
+  const prices = lines.filter(isMarkdownPriceLine).map((line) => parseMoneyText(line));
+  return prices.filter((price): price is Money => price !== null).pop() ?? null;
+}
+
+function isMarkdownPriceLine(line: string): boolean {
+  return MARKDOWN_PRICE_LINE_REGEX.test(line) && /\d/.test(line);
+}
+
+function readMarkdownReviews(lines: string[]): Pick<BundleGameInfo, 'reviewCount' | 'positiveReviewPercent'> {
+  for (const line of lines) {
+    const summary = line.match(/(\d{1,3})%\s+of\s+the\s+([\d,.\s]+?)\s+user reviews/i);
+    if (summary) {
+      return { positiveReviewPercent: Number(summary[1]), reviewCount: parseInteger(summary[2]) };
+    }
+  }
+  const labelled = lines.map((line) => line.match(REVIEW_LABEL_REGEX)).find(Boolean);
+  return { reviewCount: labelled?.[1] ? parseInteger(labelled[1]) : null, positiveReviewPercent: null };
+}
+
+function extractNameFromSanitizedLines(lines: string[], startIndex: number): string | null {
+  for (let index = startIndex; index < lines.length; index += 1) {
+    const candidate = lines[index];
+    if (!candidate) {
+      continue;
+    }
+
+    const normalized = candidate.toLowerCase();
+
+    if (
+      candidate.startsWith('[') ||
+      candidate.startsWith('!') ||
+      candidate.startsWith('-') ||
+      candidate.startsWith('+') ||
+      candidate.startsWith('·') ||
+      candidate.startsWith('•') ||
+      candidate.startsWith('*') ||
+      /^[$€£¥₽]/.test(candidate) ||
+      /^-?\d/.test(candidate) ||
+      isPlatformLabel(candidate) ||
+      isMarkdownPriceLine(candidate) ||
+      REVIEW_LABEL_REGEX.test(candidate) ||
+      normalized.includes('bundle discount') ||
+      normalized.includes('bundle price') ||
+      normalized.includes('add to cart') ||
+      normalized.includes('buy this bundle') ||
+      normalized.includes('view') ||
+      normalized.includes('includes')
+    ) {
+      continue;
+    }
+
+    return candidate;
+  }
+
+  return null;
+}
+
+function extractGameName(innerHtml: string): string | null {
+  const match = innerHtml.match(/class="[^\"]*tab_item_name[^\"]*"[^>]*>([^<]+)/i);
+  if (match) {
+    const value = decodeHtmlEntities(match[1]).trim();
+    if (value) {
+      return value;
+    }
+  }
+  return null;
+}
+
+function extractImageUrl(innerHtml: string): string | null {
+  const match = innerHtml.match(
+    /<img[^>]*class="[^"]*(?:tab_item_cap_img|bundle_capsule_image)[^"]*"[^>]*src="([^"]+)"/i,
+  );
+  if (match) {
+    const value = decodeHtmlEntities(match[1]).trim();
+    if (value) {
+      return value;
+    }
+  }
+  return null;
+}
+
+function extractClassNames(markup: string): string[] {
+  return Array.from(markup.matchAll(/class="([^"]*)"/gi)).flatMap((match) => match[1].split(/\s+/));
+}
+
+function extractParentAppId(attributes: string, innerHtml: string, appId: string): string | null {
+  const fromAttribute = attributes.match(/data-(?:ds-)?parent-appid="(\d+)"/i);
+  if (fromAttribute) {
+    return fromAttribute[1];
+  }
+  const linked = Array.from(innerHtml.matchAll(new RegExp(APP_LINK_REGEX.source, 'gi')), (match) => match[1]);
+  return linked.find((linkedAppId) => linkedAppId !== appId) ?? null;
+}
+
+function parseIntegerAttribute(source: string, names: string[]): number | null {
+  for (const name of names) {
+    const regex = new RegExp(`${name}\\s*=\\s*"([^"]+)"`, 'i');
+    const match = source.match(regex);
+    if (!match) {
+      continue;
+    }
+    const parsed = parseInteger(match[1]);
+    if (parsed !== null) {
+      return parsed;
+    }
+  }
+  return null;
+}
+
+function parsePriceAttribute(source: string, names: string[]): number | null {
+  for (const name of names) {
+    const regex = new RegExp(`${name}\\s*=\\s*"([^"]+)"`, 'i');
+    const match = source.match(regex);
+    if (!match) {
+      continue;
+    }
+    const parsed = parsePrice(match[1]);
+    if (parsed !== null) {
+      return parsed;
+    }
+  }
+  return null;
+}
+
+function parseInteger(rawValue: string | null | undefined): number | null {
+  if (typeof rawValue !== 'string') {
+    return null;
+  }
+  const sanitized = rawValue.replace(/[^\d-]/g, '');
+  if (!sanitized) {
+    return null;
+  }
+  const numeric = Number(sanitized);
+  if (!Number.isFinite(numeric)) {
+    return null;
+  }
+  return numeric;
+}
+
+function parsePrice(rawValue: string | null | undefined): number | null {
+  if (typeof rawValue !== 'string') {
+    return null;
+  }
+  const trimmed = rawValue.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const hasDecimalSeparator = trimmed.includes('.');
+  const sanitized = trimmed.replace(/[^\d.]/g, '');
+  if (!sanitized) {
+    return null;
+  }
+  const numeric = Number(sanitized);
+  if (!Number.isFinite(numeric)) {
+    return null;
+  }
+  if (hasDecimalSeparator) {
+    return Math.round(numeric * 100) / 100;
+  }
+  return Math.round((numeric / 100) * 100) / 100;
+}
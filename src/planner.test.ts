@@ -0,0 +1,81 @@
+import { expect, test } from 'vitest';
+
+import type { BundlePricing } from './bundles';
+import { planCheapestAcquisition } from './planner';
+import { bundleFixture, gameFixture } from './testFixtures';
+
+const priced = (items: Array<[string, number]>, currency = 'USD') =>
+  items.map(([appId, price]) => gameFixture({ appId, price: { amount: price, currency } }));
+
+const pricing = (finalPrice: number, discountPercent: number, currency = 'USD'): BundlePricing => ({
+  finalPrice: { amount: finalPrice, currency },
+  originalTotal: null,
+  discountPercent,
+  savings: null,
+});
+
+const bundles = [
+  bundleFixture({ id: 'A', games: priced([['10', 10], ['20', 20]]), pricing: pricing(24, 20) }),
+  bundleFixture({ id: 'B', games: priced([['20', 20], ['30', 10]]), pricing: pricing(15, 50) }),
+];
+
+test('planCheapestAcquisition combines bundles with complete-the-set pricing', () => {
+  const plan = planCheapestAcquisition(bundles, ['10', '20', '30']);
+
+  // B first at the deeper discount, then A reduced by the already owned item 20 (20 · 0.8).
+  expect(plan).toEqual({
+    bundles: [
+      { kind: 'bundle', id: 'B', name: 'Bundle B', price: { amount: 15, currency: 'USD' }, appIds: ['20', '30'] },
+      { kind: 'bundle', id: 'A', name: 'Bundle A', price: { amount: 8, currency: 'USD' }, appIds: ['10'] },
+    ],
+    singles: [],
+    total: { amount: 23, currency: 'USD' },
+    unreachable: [],
+    exhaustive: true,
+  });
+});
+
+test('planCheapestAcquisition prefers single purchases and accounts for owned games', () => {
+  expect(planCheapestAcquisition(bundles, ['10'])).toMatchObject({
+    bundles: [],
+    singles: [{ appId: '10', name: 'Game 10', price: { amount: 10, currency: 'USD' } }],
+    total: { amount: 10, currency: 'USD' },
+  });
+
+  const owned = planCheapestAcquisition(bundles, ['10', '20', '30', '99'], { ownedAppIds: ['20'] });
+  expect(owned?.bundles.map(({ id, price }) => [id, price.amount])).toEqual([
+    ['B', 5],
+    ['A', 8],
+  ]);
+  expect(owned).toMatchObject({ total: { amount: 13, currency: 'USD' }, unreachable: ['99'] });
+
+  expect(planCheapestAcquisition(bundles, ['30'], { singlePrices: { '30': { amount: 4, currency: 'USD' } } })).toMatchObject({
+    singles: [{ appId: '30', price: { amount: 4, currency: 'USD' } }],
+  });
+  expect(planCheapestAcquisition([...bundles, bundleFixture({ id: 'C', games: priced([['40', 5]], 'EUR'), pricing: pricing(4, 20, 'EUR') })], ['10'])).toBeNull();
+});
+
+test('planCheapestAcquisition keeps package prices fixed and counts the analysed titles', () => {
+  const pack = bundleFixture({ id: 'P', kind: 'package', games: priced([['10', 10], ['30', 10]]), pricing: pricing(12, 40) });
+
+  // Reducing P by the owned item 30 would make B + P (21) cheapest; a package is never reduced.
+  expect(planCheapestAcquisition([bundles[1], pack], ['10', '20', '30'])).toMatchObject({
+    bundles: [{ id: 'B', price: { amount: 15, currency: 'USD' } }],
+    singles: [{ appId: '10', price: { amount: 10, currency: 'USD' } }],
+    total: { amount: 25, currency: 'USD' },
+  });
+
+  const analysed = bundleFixture({
+    id: 'A',
+    games: priced([['20', 20]]),
+    ownGames: priced([['10', 10]]),
+    pricing: pricing(24, 20),
+  });
+  expect(planCheapestAcquisition([analysed], ['10', '20'])).toMatchObject({
+    bundles: [{ id: 'A', price: { amount: 24, currency: 'USD' }, appIds: ['10', '20'] }],
+    total: { amount: 24, currency: 'USD' },
+  });
+  expect(planCheapestAcquisition([analysed], ['20'], { ownedAppIds: ['10'] })).toMatchObject({
+    bundles: [{ id: 'A', price: { amount: 16, currency: 'USD' } }],
+  });
+});
@@ -0,0 +1,195 @@
+import type { BundleGameInfo, BundleInfo, BundleKind, Money } from './bundles';
+import { commonCurrency } from './money';
+
+export interface AcquisitionOptions {
+  // Already owned apps: they need not be bought and reduce the price of bundles containing them.
+  ownedAppIds?: string[];
+  // Single-purchase prices; by default the lowest price any bundle page listed for the app.
+  singlePrices?: Record<string, Money>;
+}
+
+export interface PlannedBundle {
+  kind: BundleKind;
+  id: string;
+  name: string;
+  // Price after Steam's complete-the-set reduction for what is owned by then.
+  price: Money;
+  // Targets the bundle supplies that no earlier purchase did.
+  appIds: string[];
+}
+
+export interface PlannedPurchase {
+  appId: string;
+  name: string | null;
+  price: Money;
+}
+
+export interface AcquisitionPlan {
+  // In purchase order, which matters because each bundle is reduced by what earlier ones supplied.
+  bundles: PlannedBundle[];
+  singles: PlannedPurchase[];
+  // Cost of the reachable targets.
+  total: Money;
+  // Targets with neither a bundle nor a known price.
+  unreachable: string[];
+  // False when the search hit its budget and `total` is the best plan found so far.
+  exhaustive: boolean;
+}
+
+interface BundleCandidate {
+  bundle: BundleInfo;
+  finalPrice: number;
+  // Multiplier applied to item prices inside the bundle, i.e. 1 − discount.
+  rate: number;
+  prices: Map<string, number | null>;
+}
+
+// Enough for every realistic target list; a plan is still returned when the budget runs out.
+const SEARCH_NODE_LIMIT = 200_000;
+
+/**
+ * Cheapest combination of bundles and single purchases that gets every target app. A weighted set
+ * cover with Steam's complete-the-set rule: a bundle costs its price minus the discounted price of
+ * the items already owned, while a package keeps its fixed price. Bundles are bought in descending
+ * discount order, so shared items are always paid at the deepest discount. Null when the prices
+ * are in different currencies.
+ */
+export function planCheapestAcquisition(
+  bundles: BundleInfo[],
+  targetAppIds: string[],
+  options: AcquisitionOptions = {},
+): AcquisitionPlan | null {
+  const owned = new Set(options.ownedAppIds ?? []);
+  const targets = Array.from(new Set(targetAppIds)).filter((appId) => !owned.has(appId));
+  const singlePrices = collectSinglePrices(bundles, options.singlePrices);
+  const currency = commonCurrency([
+    ...bundles.flatMap((bundle) => (bundle.pricing?.finalPrice ? [bundle.pricing.finalPrice] : [])),
+    ...singlePrices.values(),
+  ]);
+  if (currency === undefined) {
+    return null;
+  }
+
+  const candidates = bundles
+    .map(toBundleCandidate)
+    .filter((candidate): candidate is BundleCandidate => candidate !== null)
+    .filter((candidate) => targets.some((appId) => candidate.prices.has(appId)))
+    .sort((left, right) => left.rate - right.rate);
+  const singleCost = (appId: string) => singlePrices.get(appId)?.amount ?? Infinity;
+  const unreachable = targets.filter(
+    (appId) => singleCost(appId) === Infinity && !candidates.some((candidate) => candidate.prices.has(appId)),
+  );
+  const reachable = targets.filter((appId) => !unreachable.includes(appId));
+
+  let best: { cost: number; chosen: number[] } = {
+    cost: reachable.reduce((total, appId) => total + singleCost(appId), 0),
+    chosen: [],
+  };
+  let nodes = 0;
+
+  const search = (index: number, acquired: Set<string>, cost: number, chosen: number[]) => {
+    nodes += 1;
+    const remaining = reachable.filter((appId) => !acquired.has(appId));
+    const completion = remaining.reduce((total, appId) => total + singleCost(appId), 0);
+    if (cost + completion < best.cost) {
+      best = { cost: cost + completion, chosen: [...chosen] };
+    }
+    if (index >= candidates.length || !remaining.length || cost >= best.cost || nodes > SEARCH_NODE_LIMIT) {
+      return;
+    }
+    const candidate = candidates[index];
+    if (remaining.some((appId) => candidate.prices.has(appId))) {
+      const next = new Set(acquired);
+      candidate.prices.forEach((_, appId) => next.add(appId));
+      search(index + 1, next, cost + bundleCost(candidate, acquired), [...chosen, index]);
+    }
+    search(index + 1, acquired, cost, chosen);
+  };
+  search(0, new Set(owned), 0, []);
+
+  const acquired = new Set(owned);
+  const plannedBundles = best.chosen.map((index) => {
+    const { bundle, prices } = candidates[index];
+    const price = toMoney(bundleCost(candidates[index], acquired), currency);
+    const appIds = reachable.filter((appId) => prices.has(appId) && !acquired.has(appId));
+    prices.forEach((_, appId) => acquired.add(appId));
+    return { kind: bundle.kind, id: bundle.id, name: bundle.name, price, appIds };
+  });
+  const singles = reachable
+    .filter((appId) => !acquired.has(appId))
+    .map((appId) => ({ appId, name: findName(bundles, appId), price: toMoney(singleCost(appId), currency) }));
+
+  return {
+    bundles: plannedBundles,
+    singles,
+    total: toMoney(best.cost, currency),
+    unreachable,
+    exhaustive: nodes <= SEARCH_NODE_LIMIT,
+  };
+}
+
+function toBundleCandidate(bundle: BundleInfo): BundleCandidate | null {
+  const pricing = bundle.pricing;
+  const prices = new Map(bundleItems(bundle).map((game) => [game.appId, game.price?.amount ?? null] as const));
+  const listedTotal = Array.from(prices.values()).every((price) => price !== null)
+    ? Array.from(prices.values()).reduce<number>((total, price) => total + (price ?? 0), 0)
+    : null;
+  const originalTotal = pricing?.originalTotal?.amount ?? listedTotal;
+  const rate =
+    pricing?.discountPercent !== null && pricing?.discountPercent !== undefined
+      ? 1 - pricing.discountPercent / 100
+      : pricing?.finalPrice && originalTotal
+      ? pricing.finalPrice.amount / originalTotal
+      : null;
+  const finalPrice = pricing?.finalPrice?.amount ?? (originalTotal !== null && rate !== null ? originalTotal * rate : null);
+  if (finalPrice === null) {
+    return null;
+  }
+  return { bundle, finalPrice, rate: rate ?? 1, prices };
+}
+
+// Only bundles are reduced; a package costs the same whatever is owned. Items whose price is unknown
+// cannot be subtracted, which keeps the estimate on the safe side.
+function bundleCost(candidate: BundleCandidate, owned: Set<string>): number {
+  if (candidate.bundle.kind !== 'bundle') {
+    return candidate.finalPrice;
+  }
+  let reduction = 0;
+  candidate.prices.forEach((price, appId) => {
+    if (owned.has(appId) && price !== null) {
+      reduction += price * candidate.rate;
+    }
+  });
+  return Math.max(0, candidate.finalPrice - reduction);
+}
+
+function collectSinglePrices(bundles: BundleInfo[], overrides: Record<string, Money> = {}): Map<string, Money> {
+  const prices = new Map<string, Money>();
+  for (const game of bundles.flatMap(bundleItems)) {
+    const known = prices.get(game.appId);
+    if (game.price && (!known || game.price.amount < known.amount)) {
+      prices.set(game.appId, game.price);
+    }
+  }
+  Object.entries(overrides).forEach(([appId, price]) => prices.set(appId, price));
+  return prices;
+}
+
+function findName(bundles: BundleInfo[], appId: string): string | null {
+  for (const bundle of bundles) {
+    const game = bundleItems(bundle).find((entry) => entry.appId === appId && entry.name);
+    if (game) {
+      return game.name;
+    }
+  }
+  return null;
+}
+
+// Everything the bundle sells, including the analysed titles that `games` leaves out.
+function bundleItems(bundle: BundleInfo): BundleGameInfo[] {
+  return [...bundle.games, ...(bundle.ownGames ?? [])];
+}
+
+function toMoney(amount: number, currency: string | null): Money {
+  return { amount: Math.round(amount * 100) / 100, currency };
+}
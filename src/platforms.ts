@@ -0,0 +1,98 @@
+import type { BundleGameInfo, BundlePlatform, DeckCompatibility, VrSupport } from './bundles';
+
+export type PlatformSupport = Pick<BundleGameInfo, 'platforms' | 'deckCompatibility' | 'vrSupport'>;
+
+const PLATFORM_CLASSES: Record<string, BundlePlatform> = {
+  win: 'windows',
+  mac: 'mac',
+  linux: 'linux',
+};
+
+// Numeric categories used by Steam's Deck compatibility data.
+const DECK_CATEGORIES: Record<string, DeckCompatibility> = {
+  '0': 'unknown',
+  '1': 'unsupported',
+  '2': 'playable',
+  '3': 'verified',
+};
+
+const DECK_CLASS_REGEX = /deck.*?(verified|playable|unsupported|unknown)/i;
+const VR_CLASS_REGEX = /^vr_(supported|required|only)$/i;
+
+const PLATFORM_TEXT: Array<[RegExp, BundlePlatform]> = [
+  [/\bwindows\b/i, 'windows'],
+  [/\bmac ?os\b|\bmac\b/i, 'mac'],
+  [/\blinux\b|\bsteamos\b/i, 'linux'],
+];
+const DECK_TEXT_REGEX = /^steam deck\W+(verified|playable|unsupported)$/i;
+const VR_TEXT_REGEX = /^VR (supported|required|only)$/i;
+
+/**
+ * Reads the `platform_img win/mac/linux` spans, Deck compatibility classes or the
+ * `data-ds-steam-deck-compat-category` value, and the VR badges of a tab item.
+ */
+export function platformSupportFromMarkup(classNames: string[], deckCategory: string | null): PlatformSupport {
+  const platforms = new Set<BundlePlatform>();
+  let deckCompatibility: DeckCompatibility | null = deckCategory ? DECK_CATEGORIES[deckCategory.trim()] ?? null : null;
+  let vrSupport: VrSupport | null = null;
+
+  for (const className of classNames) {
+    const platform = PLATFORM_CLASSES[className.toLowerCase()];
+    if (platform) {
+      platforms.add(platform);
+    }
+    const deck = deckCompatibility ? null : className.match(DECK_CLASS_REGEX);
+    if (deck) {
+      deckCompatibility = deck[1].toLowerCase() as DeckCompatibility;
+    }
+    const vr = className.match(VR_CLASS_REGEX);
+    if (vr) {
+      vrSupport = vr[1].toLowerCase() === 'supported' ? 'supported' : 'required';
+    }
+  }
+
+  // Items always list at least one platform, so no spans means the markup did not carry them.
+  const hasPlatformSpans = classNames.some((className) => className === 'platform_img');
+  return {
+    platforms: hasPlatformSpans || platforms.size ? Array.from(platforms) : null,
+    deckCompatibility,
+    vrSupport,
+  };
+}
+
+/** Reads the textual labels the markdown proxy leaves behind, e.g. `SteamOS + Linux` or `Steam Deck Verified`. */
+export function platformSupportFromText(lines: string[]): PlatformSupport {
+  const platforms = new Set<BundlePlatform>();
+  let deckCompatibility: DeckCompatibility | null = null;
+  let vrSupport: VrSupport | null = null;
+
+  for (const line of lines) {
+    if (isPlatformList(line)) {
+      for (const [pattern, platform] of PLATFORM_TEXT) {
+        if (pattern.test(line)) {
+          platforms.add(platform);
+        }
+      }
+    }
+    const deck = line.match(DECK_TEXT_REGEX);
+    if (deck) {
+      deckCompatibility = deck[1].toLowerCase() as DeckCompatibility;
+    }
+    const vr = line.match(VR_TEXT_REGEX);
+    if (vr) {
+      vrSupport = vr[1].toLowerCase() === 'supported' ? 'supported' : 'required';
+    }
+  }
+
+  return { platforms: platforms.size ? Array.from(platforms) : null, deckCompatibility, vrSupport };
+}
+
+/** Platform, Deck and VR labels, which must not be mistaken for the item name. */
+export function isPlatformLabel(line: string): boolean {
+  return isPlatformList(line) || DECK_TEXT_REGEX.test(line) || VR_TEXT_REGEX.test(line);
+}
+
+function isPlatformList(line: string): boolean {
+  const remainder = PLATFORM_TEXT.reduce((text, [pattern]) => text.replace(new RegExp(pattern.source, 'gi'), ''), line);
+  return remainder !== line && !/[a-z0-9]/i.test(remainder);
+}
@@ -0,0 +1,66 @@
+import type { BundleGameInfo } from './bundles';
+
+type ReviewFields = Pick<
+  BundleGameInfo,
+  'reviewCount' | 'positiveReviewPercent' | 'positiveReviewCount' | 'negativeReviewCount'
+>;
+
+/** Confidence-adjusted positivity in percent (0–100), so that 3/3 does not outrank 9,500/10,000. */
+export interface GameRating {
+  // Lower bound of the 95% Wilson score interval.
+  wilson: number;
+  // SteamDB-style rating, which pulls small samples towards 50%.
+  bayesian: number;
+}
+
+// z for a 95% two-sided confidence interval.
+const WILSON_Z = 1.96;
+
+/**
+ * Raw counts when the appreviews endpoint supplied them; otherwise estimated from the count and
+ * the rounded percentage shown on the store page.
+ */
+export function reviewCounts(game: ReviewFields): { positive: number; total: number } | null {
+  if (game.positiveReviewCount !== null && game.negativeReviewCount !== null) {
+    const total = game.positiveReviewCount + game.negativeReviewCount;
+    return total > 0 ? { positive: game.positiveReviewCount, total } : null;
+  }
+  if (game.reviewCount && game.positiveReviewPercent !== null) {
+    return { positive: (game.reviewCount * game.positiveReviewPercent) / 100, total: game.reviewCount };
+  }
+  return null;
+}
+
+export function wilsonLowerBound(positive: number, total: number, z = WILSON_Z): number | null {
+  if (total <= 0) {
+    return null;
+  }
+  const share = positive / total;
+  const z2 = z * z;
+  const centre = share + z2 / (2 * total);
+  const margin = z * Math.sqrt((share * (1 - share) + z2 / (4 * total)) / total);
+  return Math.max(0, (centre - margin) / (1 + z2 / total));
+}
+
+export function bayesianRating(positive: number, total: number): number | null {
+  if (total <= 0) {
+    return null;
+  }
+  const share = positive / total;
+  return share - (share - 0.5) * 2 ** -Math.log10(total + 1);
+}
+
+export function rateGame(game: ReviewFields): GameRating | null {
+  const counts = reviewCounts(game);
+  if (!counts) {
+    return null;
+  }
+  return {
+    wilson: toPercent(wilsonLowerBound(counts.positive, counts.total) ?? 0),
+    bayesian: toPercent(bayesianRating(counts.positive, counts.total) ?? 0),
+  };
+}
+
+function toPercent(value: number): number {
+  return Math.round(value * 1000) / 10;
+}
@@ -0,0 +1,85 @@
+import { afterEach, expect, test } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  createFileCacheStore,
+  createLocalStorageCacheStore,
+  createMemoryCacheStore,
+} from './responseCache';
+
+const createStorage = (): Storage => {
+  const values = new Map<string, string>();
+  return {
+    get length() {
+      return values.size;
+    },
+    clear: () => values.clear(),
+    getItem: (key) => values.get(key) ?? null,
+    key: (index) => Array.from(values.keys())[index] ?? null,
+    removeItem: (key) => {
+      values.delete(key);
+    },
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+  };
+};
+
+const entry = { url: 'https://example.com/page', body: '<html></html>', storedAt: 1000 };
+
+let tempDirectory: string | null = null;
+
+afterEach(async () => {
+  if (tempDirectory) {
+    await rm(tempDirectory, { recursive: true, force: true });
+    tempDirectory = null;
+  }
+});
+
+test('createMemoryCacheStore stores, deletes and clears entries', async () => {
+  const store = createMemoryCacheStore();
+  await store.set('a', entry);
+  await store.set('b', entry);
+  expect(await store.get('a')).toEqual(entry);
+
+  await store.delete('a');
+  expect(await store.get('a')).toBeUndefined();
+
+  await store.clear();
+  expect(await store.get('b')).toBeUndefined();
+});
+
+test('createLocalStorageCacheStore only touches its own prefix', async () => {
+  const storage = createStorage();
+  storage.setItem('unrelated', 'keep me');
+  storage.setItem('cache:broken', '{not json');
+
+  const store = createLocalStorageCacheStore(storage, 'cache:');
+  await store.set('page', entry);
+  expect(await store.get('page')).toEqual(entry);
+  expect(await store.get('broken')).toBeUndefined();
+
+  await store.clear();
+  expect(await store.get('page')).toBeUndefined();
+  expect(storage.getItem('unrelated')).toBe('keep me');
+});
+
+test('createFileCacheStore persists entries across instances', async () => {
+  tempDirectory = await mkdtemp(join(tmpdir(), 'bundlemaster-cache-'));
+  const filePath = join(tempDirectory, 'responses.json');
+
+  const first = createFileCacheStore(filePath);
+  expect(await first.get('page')).toBeUndefined();
+  await first.set('page', entry);
+
+  const stored = JSON.parse(await readFile(filePath, 'utf8'));
+  expect(stored).toEqual({ page: entry });
+
+  const second = createFileCacheStore(filePath);
+  expect(await second.get('page')).toEqual(entry);
+
+  await second.delete('page');
+  expect(await createFileCacheStore(filePath).get('page')).toBeUndefined();
+});
@@ -0,0 +1,236 @@
+export interface ResponseCacheEntry {
+  url: string;
+  body: string;
+  storedAt: number;
+}
+
+export interface ResponseCacheStore {
+  get(key: string): Promise<ResponseCacheEntry | undefined>;
+  set(key: string, entry: ResponseCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DEFAULT_STORAGE_PREFIX = 'bundlemaster:response:';
+const DEFAULT_DATABASE_NAME = 'bundlemaster-cache';
+const OBJECT_STORE_NAME = 'responses';
+
+export function createMemoryCacheStore(): ResponseCacheStore {
+  const entries = new Map<string, ResponseCacheEntry>();
+  return {
+    async get(key) {
+      return entries.get(key);
+    },
+    async set(key, entry) {
+      entries.set(key, entry);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+}
+
+export function createLocalStorageCacheStore(
+  storage: Storage = globalThis.localStorage,
+  prefix = DEFAULT_STORAGE_PREFIX,
+): ResponseCacheStore {
+  const ownKeys = () => {
+    const keys: string[] = [];
+    for (let index = 0; index < storage.length; index += 1) {
+      const key = storage.key(index);
+      if (key?.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  };
+
+  return {
+    async get(key) {
+      const raw = storage.getItem(prefix + key);
+      if (!raw) {
+        return undefined;
+      }
+      try {
+        const parsed = JSON.parse(raw) as unknown;
+        return isCacheEntry(parsed) ? parsed : undefined;
+      } catch (error) {
+        void error;
+        return undefined;
+      }
+    },
+    async set(key, entry) {
+      storage.setItem(prefix + key, JSON.stringify(entry));
+    },
+    async delete(key) {
+      storage.removeItem(prefix + key);
+    },
+    async clear() {
+      for (const key of ownKeys()) {
+        storage.removeItem(key);
+      }
+    },
+  };
+}
+
+export function createIndexedDbCacheStore(
+  databaseName = DEFAULT_DATABASE_NAME,
+  factory: IDBFactory = globalThis.indexedDB,
+): ResponseCacheStore {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = () => {
+    if (!databasePromise) {
+      databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = factory.open(databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(OBJECT_STORE_NAME);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return databasePromise;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> => {
+    const database = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(OBJECT_STORE_NAME, mode);
+      const request = action(transaction.objectStore(OBJECT_STORE_NAME));
+      // A write is durable only once its transaction commits, which can still fail after the request succeeded.
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? request.error);
+    });
+  };
+
+  return {
+    async get(key) {
+      const value = await run<unknown>('readonly', (store) => store.get(key));
+      return isCacheEntry(value) ? value : undefined;
+    },
+    async set(key, entry) {
+      await run('readwrite', (store) => store.put(entry, key));
+    },
+    async delete(key) {
+      await run('readwrite', (store) => store.delete(key));
+    },
+    async clear() {
+      await run('readwrite', (store) => store.clear());
+    },
+  };
+}
+
+/**
+ * Picks IndexedDB when available and falls back to localStorage, then to memory.
+ */
+export function createBrowserCacheStore(): ResponseCacheStore {
+  if (typeof globalThis.indexedDB !== 'undefined') {
+    return createIndexedDbCacheStore();
+  }
+  if (typeof globalThis.localStorage !== 'undefined') {
+    return createLocalStorageCacheStore();
+  }
+  return createMemoryCacheStore();
+}
+
+export interface FileSystemPromises {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>;
+}
+
+// Kept out of static imports so that browser bundles never try to resolve Node built-ins.
+const FS_MODULE = 'node:fs/promises';
+
+export const loadFileSystem = () => import(/* @vite-ignore */ FS_MODULE) as Promise<FileSystemPromises>;
+
+/**
+ * Stores every entry in a single JSON file. Intended for Node scripts and CLIs.
+ */
+export function createFileCacheStore(filePath: string): ResponseCacheStore {
+  let entriesPromise: Promise<Map<string, ResponseCacheEntry>> | null = null;
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  const load = () => {
+    if (!entriesPromise) {
+      entriesPromise = (async () => {
+        const entries = new Map<string, ResponseCacheEntry>();
+        const fs = await loadFileSystem();
+        let raw: string;
+        try {
+          raw = await fs.readFile(filePath, 'utf8');
+        } catch (error) {
+          void error;
+          return entries;
+        }
+        try {
+          const parsed = JSON.parse(raw) as unknown;
+          if (parsed && typeof parsed === 'object') {
+            for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+              if (isCacheEntry(value)) {
+                entries.set(key, value);
+              }
+            }
+          }
+        } catch (error) {
+          void error;
+        }
+        return entries;
+      })();
+    }
+    return entriesPromise;
+  };
+
+  const persist = async (entries: Map<string, ResponseCacheEntry>) => {
+    const snapshot = JSON.stringify(Object.fromEntries(entries));
+    const write = pendingWrite.then(async () => {
+      const fs = await loadFileSystem();
+      await fs.writeFile(filePath, snapshot, 'utf8');
+    });
+    pendingWrite = write.catch(() => undefined);
+    await write;
+  };
+
+  return {
+    async get(key) {
+      const entries = await load();
+      return entries.get(key);
+    },
+    async set(key, entry) {
+      const entries = await load();
+      entries.set(key, entry);
+      await persist(entries);
+    },
+    async delete(key) {
+      const entries = await load();
+      if (entries.delete(key)) {
+        await persist(entries);
+      }
+    },
+    async clear() {
+      const entries = await load();
+      entries.clear();
+      await persist(entries);
+    },
+  };
+}
+
+function isCacheEntry(value: unknown): value is ResponseCacheEntry {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Partial<ResponseCacheEntry>;
+  return (
+    typeof candidate.url === 'string' &&
+    typeof candidate.body === 'string' &&
+    typeof candidate.storedAt === 'number' &&
+    Number.isFinite(candidate.storedAt)
+  );
+}
@@ -0,0 +1,85 @@
+import { expect, test } from 'vitest';
+
+import type { BundleGameInfo } from './bundles';
+import { bayesianRating, rateGame, wilsonLowerBound } from './ratings';
+import { scoreBundle, scoreBundles, sortByPartnerValue } from './scoring';
+import { bundleFixture, gameFixture } from './testFixtures';
+
+const game = (
+  appId: string,
+  reviewCount: number | null,
+  positiveReviewPercent: number | null,
+  price: number | null,
+  itemType: BundleGameInfo['itemType'] = 'game',
+): BundleGameInfo =>
+  gameFixture({
+    appId,
+    reviewCount,
+    positiveReviewPercent,
+    price: price === null ? null : { amount: price, currency: 'USD' },
+    itemType,
+  });
+
+
+test('confidence-adjusted ratings rank a few perfect reviews below many mostly positive ones', () => {
+  const few = { reviewCount: 3, positiveReviewPercent: 100, positiveReviewCount: 3, negativeReviewCount: 0 };
+  const many = { reviewCount: 10_000, positiveReviewPercent: 95, positiveReviewCount: 9_500, negativeReviewCount: 500 };
+
+  expect(rateGame(few)).toEqual({ wilson: 43.8, bayesian: 67.1 });
+  expect(rateGame(many)).toEqual({ wilson: 94.6, bayesian: 92.2 });
+  // Without raw counts the store page's count and rounded percentage are used.
+  expect(rateGame({ ...many, positiveReviewCount: null, negativeReviewCount: null })).toEqual(rateGame(many));
+  expect(rateGame({ reviewCount: 0, positiveReviewPercent: null, positiveReviewCount: null, negativeReviewCount: null })).toBeNull();
+  expect(wilsonLowerBound(0, 0)).toBeNull();
+  expect(bayesianRating(1, 1)).toBeCloseTo(1 - 0.5 * 2 ** -Math.log10(2));
+});
+
+test('scoreBundle computes review, price and quality metrics over partner games', () => {
+  const metrics = scoreBundle(
+    bundleFixture({
+      id: '1',
+      games: [
+        game('10', 900, 90, 19.99),
+        game('11', 100, 50, 9.99),
+        game('12', 10, 100, 4.99),
+        game('13', 5000, 95, 99.99, 'soundtrack'),
+        game('14', null, null, 14.99, null),
+      ],
+    }),
+  );
+
+  expect(metrics).toMatchObject({
+    partnerCount: 4,
+    totalReviews: 1010,
+    averageRating: 70.2,
+    weightedPositivePercent: 86.1,
+    medianPrice: { amount: 12.49, currency: 'USD' },
+    belowThresholdShare: 0.75,
+  });
+  // 0.4 · 0.702 + 0.3 · log10(1011) / log10(100001) + 0.3 · 0.25
+  expect(metrics.partnerValue).toBeCloseTo(53.6, 1);
+});
+
+test('partner value weights are configurable and skip unknown components', () => {
+  const reviewed = bundleFixture({ id: '2', games: [game('20', 2000, 80, 9.99)], tagMatch: 0.5 });
+
+  expect(scoreBundle(reviewed, { weights: { positivity: 1, popularity: 0, quality: 0 } }).partnerValue).toBe(77);
+  expect(
+    scoreBundle(reviewed, { weights: { positivity: 1, popularity: 0, quality: 0, tagMatch: 1 } }).partnerValue,
+  ).toBe(63.5);
+  expect(scoreBundle(reviewed, { threshold: { minPositivePercent: 85 } }).belowThresholdShare).toBe(1);
+
+  const empty = scoreBundle(bundleFixture({ id: '3', games: [game('30', 10, 90, 1, 'dlc')] }));
+  expect(empty).toMatchObject({ partnerCount: 0, weightedPositivePercent: null, medianPrice: null, partnerValue: null });
+});
+
+test('sortByPartnerValue puts the best bundles first and unscored ones last', () => {
+  const scored = scoreBundles([
+    bundleFixture({ id: 'weak', games: [game('40', 20, 40, 1)] }),
+    bundleFixture({ id: 'empty' }),
+    bundleFixture({ id: 'strong', games: [game('41', 50_000, 96, 1)] }),
+  ]);
+
+  expect(sortByPartnerValue(scored).map(({ bundle: { id } }) => id)).toEqual(['strong', 'weak', 'empty']);
+  expect(scored.map(({ bundle: { id } }) => id)).toEqual(['weak', 'empty', 'strong']);
+});
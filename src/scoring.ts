@@ -0,0 +1,130 @@
+import type { BundleGameInfo, BundleInfo, Money } from './bundles';
+import { commonCurrency } from './money';
+import { rateGame } from './ratings';
+
+/** Partner games below either bound count as low quality. */
+export interface QualityThreshold {
+  // Compared with the Bayesian rating rather than the raw percentage.
+  minPositivePercent: number;
+  minReviewCount: number;
+}
+
+/** Relative weights of the partner value components; they do not have to add up to 1. */
+export interface PartnerValueWeights {
+  positivity: number;
+  popularity: number;
+  quality: number;
+  tagMatch: number;
+}
+
+export interface BundleValueOptions {
+  threshold?: Partial<QualityThreshold>;
+  weights?: Partial<PartnerValueWeights>;
+  // Total review count at which popularity saturates.
+  popularityReference?: number;
+}
+
+export interface BundleValueMetrics {
+  // Items that are games (or of unknown type); soundtracks, DLC, demos and tools are left out.
+  partnerCount: number;
+  totalReviews: number;
+  // Mean Bayesian rating of the reviewed partner games; what the positivity component uses.
+  averageRating: number | null;
+  // Raw review-weighted positivity, kept for display.
+  weightedPositivePercent: number | null;
+  medianPrice: Money | null;
+  belowThresholdShare: number | null;
+  // 0–100, or null when none of the weighted components is known.
+  partnerValue: number | null;
+}
+
+export interface ScoredBundle<T extends BundleInfo = BundleInfo> {
+  bundle: T;
+  metrics: BundleValueMetrics;
+}
+
+export const DEFAULT_QUALITY_THRESHOLD: QualityThreshold = { minPositivePercent: 70, minReviewCount: 50 };
+export const DEFAULT_PARTNER_VALUE_WEIGHTS: PartnerValueWeights = {
+  positivity: 0.4,
+  popularity: 0.3,
+  quality: 0.3,
+  tagMatch: 0,
+};
+const DEFAULT_POPULARITY_REFERENCE = 100_000;
+
+export function scoreBundle(bundle: BundleInfo, options: BundleValueOptions = {}): BundleValueMetrics {
+  const threshold = { ...DEFAULT_QUALITY_THRESHOLD, ...options.threshold };
+  const weights = { ...DEFAULT_PARTNER_VALUE_WEIGHTS, ...options.weights };
+  const reference = options.popularityReference ?? DEFAULT_POPULARITY_REFERENCE;
+
+  const partners = bundle.games.filter(isPartnerGame);
+  const reviewed = partners.filter(
+    (game) => game.reviewCount !== null && game.positiveReviewPercent !== null,
+  ) as Array<BundleGameInfo & { reviewCount: number; positiveReviewPercent: number }>;
+  const totalReviews = partners.reduce((total, game) => total + (game.reviewCount ?? 0), 0);
+  const reviewedTotal = reviewed.reduce((total, game) => total + game.reviewCount, 0);
+  const weightedPositivePercent = reviewedTotal
+    ? reviewed.reduce((total, game) => total + game.reviewCount * game.positiveReviewPercent, 0) / reviewedTotal
+    : null;
+  const ratings = partners.map(rateGame);
+  const rated = ratings.filter((rating) => rating !== null);
+  const averageRating = rated.length
+    ? Math.round((rated.reduce((total, rating) => total + rating.bayesian, 0) / rated.length) * 10) / 10
+    : null;
+  // Items without reviews cannot prove their quality, so they count as below the threshold.
+  const belowThresholdShare = partners.length
+    ? partners.filter(
+        (game, index) =>
+          (game.reviewCount ?? 0) < threshold.minReviewCount ||
+          (ratings[index]?.bayesian ?? 0) < threshold.minPositivePercent,
+      ).length / partners.length
+    : null;
+
+  const components: Array<[number, number | null]> = [
+    [weights.positivity, averageRating === null ? null : averageRating / 100],
+    [weights.popularity, partners.length ? Math.min(1, Math.log10(1 + totalReviews) / Math.log10(1 + reference)) : null],
+    [weights.quality, belowThresholdShare === null ? null : 1 - belowThresholdShare],
+    [weights.tagMatch, bundle.tagMatch ?? null],
+  ];
+  const known = components.filter(([weight, value]) => weight > 0 && value !== null) as Array<[number, number]>;
+  const weightTotal = known.reduce((total, [weight]) => total + weight, 0);
+  const partnerValue = weightTotal
+    ? Math.round((known.reduce((total, [weight, value]) => total + weight * value, 0) / weightTotal) * 1000) / 10
+    : null;
+
+  return {
+    partnerCount: partners.length,
+    totalReviews,
+    averageRating,
+    weightedPositivePercent: weightedPositivePercent === null ? null : Math.round(weightedPositivePercent * 10) / 10,
+    medianPrice: medianMoney(partners.map((game) => game.price).filter((price): price is Money => price !== null)),
+    belowThresholdShare,
+    partnerValue,
+  };
+}
+
+export function scoreBundles<T extends BundleInfo>(bundles: T[], options: BundleValueOptions = {}): ScoredBundle<T>[] {
+  return bundles.map((bundle) => ({ bundle, metrics: scoreBundle(bundle, options) }));
+}
+
+/** Best partner value first; bundles without a score keep their order at the end. */
+export function sortByPartnerValue<T extends BundleInfo>(scored: ScoredBundle<T>[]): ScoredBundle<T>[] {
+  return [...scored].sort(
+    (left, right) => (right.metrics.partnerValue ?? -1) - (left.metrics.partnerValue ?? -1),
+  );
+}
+
+function isPartnerGame(game: BundleGameInfo): boolean {
+  return game.itemType === 'game' || game.itemType === null;
+}
+
+function medianMoney(values: Money[]): Money | null {
+  const currency = commonCurrency(values);
+  if (!values.length || currency === undefined) {
+    return null;
+  }
+  const amounts = values.map((value) => value.amount).sort((left, right) => left - right);
+  const middle = Math.floor(amounts.length / 2);
+  const amount = amounts.length % 2 ? amounts[middle] : (amounts[middle - 1] + amounts[middle]) / 2;
+  return { amount: Math.round(amount * 100) / 100, currency };
+}
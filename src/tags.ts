@@ -0,0 +1,139 @@
+import { decodeHtmlEntities } from './html';
+import type { BundleGameInfo, BundleGameTag, TagProfileEntry } from './bundles';
+
+// Common store tags, used when the page itself does not name a tag.
+export const STEAM_TAG_NAMES: Readonly<Record<number, string>> = {
+  9: 'Strategy',
+  19: 'Action',
+  21: 'Adventure',
+  122: 'RPG',
+  128: 'Massively Multiplayer',
+  492: 'Indie',
+  597: 'Casual',
+  599: 'Simulation',
+  699: 'Racing',
+  701: 'Sports',
+  1625: 'Platformer',
+  1628: 'Metroidvania',
+  1643: 'Building',
+  1645: 'Tower Defense',
+  1654: 'Relaxing',
+  1662: 'Survival',
+  1663: 'FPS',
+  1664: 'Puzzle',
+  1666: 'Card Game',
+  1667: 'Horror',
+  1684: 'Fantasy',
+  1685: 'Co-op',
+  1687: 'Stealth',
+  1695: 'Open World',
+  1698: 'Point & Click',
+  1702: 'Crafting',
+  1708: 'Tactical',
+  1716: 'Roguelike',
+  1741: 'Turn-Based Strategy',
+  1742: 'Story Rich',
+  1743: 'Fighting',
+  1754: 'MMORPG',
+  1755: 'Space',
+  1756: 'Great Soundtrack',
+  1774: 'Shooter',
+  3799: 'Visual Novel',
+  3810: 'Sandbox',
+  3834: 'Exploration',
+  3839: 'First-Person',
+  3841: 'Local Co-Op',
+  3843: 'Online Co-Op',
+  3859: 'Multiplayer',
+  3871: '2D',
+  3942: 'Sci-fi',
+  3959: 'Roguelite',
+  3964: 'Pixel Graphics',
+  3978: 'Survival Horror',
+  4004: 'Retro',
+  4085: 'Anime',
+  4166: 'Atmospheric',
+  4182: 'Singleplayer',
+  4191: '3D',
+  4231: 'Action RPG',
+  5350: 'Family Friendly',
+  5379: '2D Platformer',
+  7332: 'Base Building',
+  8945: 'Resource Management',
+};
+
+const TAG_LINK_REGEX = /<[^>]*\bdata-tagid="(\d+)"[^>]*>([^<]+)</gi;
+const TAG_JSON_REGEX = /\{[^{}]*?"tagid"\s*:\s*(\d+)[^{}]*?"name"\s*:\s*"((?:[^"\\]|\\.)*)"/gi;
+
+/** Reads `data-ds-tagids`, e.g. `[1716,3959,492]`; null when the attribute is missing. */
+export function parseTagIds(raw: string | null | undefined): number[] | null {
+  if (!raw) {
+    return null;
+  }
+  const ids = (decodeHtmlEntities(raw).match(/\d+/g) ?? []).map(Number);
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Tag names the page reveals itself, from tag links (`<a data-tagid="1716">Roguelike</a>`) and
+ * tag JSON embedded in scripts (`{"tagid":1716,"name":"Roguelike"}`).
+ */
+export function collectPageTagNames(body: string): Map<number, string> {
+  const names = new Map<number, string>();
+  for (const [, id, name] of body.matchAll(TAG_LINK_REGEX)) {
+    const value = decodeHtmlEntities(name).trim();
+    if (value) {
+      names.set(Number(id), value);
+    }
+  }
+  for (const [, id, name] of body.matchAll(TAG_JSON_REGEX)) {
+    if (!names.has(Number(id))) {
+      names.set(Number(id), decodeJsonString(name));
+    }
+  }
+  return names;
+}
+
+export function resolveTags(ids: number[] | null, pageNames: Map<number, string>): BundleGameTag[] | null {
+  return ids ? ids.map((id) => ({ id, name: pageNames.get(id) ?? STEAM_TAG_NAMES[id] ?? null })) : null;
+}
+
+/** Share of the tagged items carrying each tag, most common first. */
+export function computeTagProfile(games: BundleGameInfo[]): TagProfileEntry[] {
+  const tagged = games.filter((game) => game.tags?.length);
+  const entries = new Map<number, TagProfileEntry>();
+  for (const game of tagged) {
+    for (const tag of game.tags ?? []) {
+      const entry = entries.get(tag.id) ?? { id: tag.id, name: tag.name, count: 0, share: 0 };
+      entry.count += 1;
+      entry.name ??= tag.name;
+      entries.set(tag.id, entry);
+    }
+  }
+  return Array.from(entries.values())
+    .map((entry) => ({ ...entry, share: entry.count / tagged.length }))
+    .sort((left, right) => right.count - left.count || left.id - right.id);
+}
+
+/**
+ * How much of a bundle's tag profile falls on the given game's tags (0–1), weighted by how
+ * common each tag is in the bundle. Null when either side has no tags.
+ */
+export function matchTagProfile(profile: TagProfileEntry[], tags: BundleGameTag[] | null): number | null {
+  const total = profile.reduce((sum, entry) => sum + entry.share, 0);
+  if (!tags?.length || total === 0) {
+    return null;
+  }
+  const own = new Set(tags.map((tag) => tag.id));
+  const matched = profile.filter((entry) => own.has(entry.id)).reduce((sum, entry) => sum + entry.share, 0);
+  return matched / total;
+}
+
+function decodeJsonString(value: string): string {
+  try {
+    return JSON.parse(`"${value}"`) as string;
+  } catch (error) {
+    void error;
+    return value;
+  }
+}
@@ -0,0 +1,26 @@
+import type { BundleGameInfo, BundleInfo } from './bundles';
+
+/** A bundle item with nothing known about it beyond the overrides; named `Game {appId}` by default. */
+export const gameFixture = (overrides: Partial<BundleGameInfo> & { appId: string }): BundleGameInfo => ({
+  name: `Game ${overrides.appId}`,
+  imageUrl: null,
+  reviewCount: null,
+  positiveReviewPercent: null,
+  positiveReviewCount: null,
+  negativeReviewCount: null,
+  price: null,
+  itemType: 'game',
+  platforms: null,
+  deckCompatibility: null,
+  vrSupport: null,
+  tags: null,
+  ...overrides,
+});
+
+/** A bundle without items or pricing unless given; named `Bundle {id}` by default. */
+export const bundleFixture = (overrides: Partial<BundleInfo> & { id: string }): BundleInfo => ({
+  kind: 'bundle',
+  name: `Bundle ${overrides.id}`,
+  games: [],
+  ...overrides,
+});
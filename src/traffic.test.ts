@@ -0,0 +1,118 @@
+import { expect, test, vi } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { BundleMasterClient } from './bundles';
+import {
+  createReplayTransport,
+  createTrafficRecorder,
+  loadHarFile,
+  saveHarFile,
+} from './traffic';
+
+const PROXY = 'https://proxy.example/';
+const BUNDLE_LIST_URL = 'https://store.steampowered.com/bundlelist/9191?l=english&cc=us';
+const BUNDLE_PAGE_URL = 'https://store.steampowered.com/bundle/910?l=english&cc=us';
+
+const BUNDLE_PAGE = `
+  <h2 class="pageheader">Recorded Bundle</h2>
+  <a class="tab_item" data-ds-appid="9191" data-ds-review-count="10" data-ds-review-percentage="90" data-ds-price-final="999">
+    <div class="tab_item_name">Recorded Game</div>
+  </a>
+`;
+
+const createLiveTransport = () =>
+  vi.fn(async (url: string) => {
+    if (url === PROXY + BUNDLE_LIST_URL) {
+      return new Response('<a href="https://store.steampowered.com/bundle/910"></a>', {
+        status: 200,
+        headers: { 'Content-Type': 'text/html' },
+      });
+    }
+    if (url === PROXY + BUNDLE_PAGE_URL) {
+      return new Response(BUNDLE_PAGE, { status: 200, headers: { 'Content-Type': 'text/html' } });
+    }
+    return new Response('Not found', { status: 404 });
+  });
+
+test('createTrafficRecorder captures responses and the proxy they came through', async () => {
+  const live = createLiveTransport();
+  const recorder = createTrafficRecorder(live);
+  const client = new BundleMasterClient({ proxies: [PROXY], transport: recorder.transport });
+
+  const bundles = await client.fetchBundleNames('9191');
+  const archive = await recorder.toHar();
+
+  expect(bundles.map((bundle) => bundle.name)).toEqual(['Recorded Bundle']);
+  expect(archive.log.version).toBe('1.2');
+  expect(archive.log.entries).toHaveLength(live.mock.calls.length);
+
+  const listEntry = archive.log.entries.find((entry) => entry._targetUrl === BUNDLE_LIST_URL);
+  expect(listEntry).toMatchObject({
+    request: { method: 'GET', url: PROXY + BUNDLE_LIST_URL },
+    response: { status: 200, content: { mimeType: 'text/html' } },
+    _source: PROXY,
+  });
+  expect(listEntry?.response.headers).toContainEqual({ name: 'content-type', value: 'text/html' });
+});
+
+test('createReplayTransport serves a recording offline, with or without the original proxy', async () => {
+  const recorder = createTrafficRecorder(createLiveTransport());
+  await new BundleMasterClient({ proxies: [PROXY], transport: recorder.transport }).fetchBundleNames('9191');
+  const archive = await recorder.toHar();
+
+  const directory = await mkdtemp(join(tmpdir(), 'bundlemaster-har-'));
+  try {
+    const filePath = join(directory, 'run.har');
+    await saveHarFile(filePath, archive);
+    const replayed = createReplayTransport(await loadHarFile(filePath));
+
+    const viaProxy = await new BundleMasterClient({ proxies: [PROXY], transport: replayed }).fetchBundleNames(
+      '9191'
+    );
+    const direct = await new BundleMasterClient({ proxies: [], transport: replayed }).fetchBundleNames('9191');
+
+    expect(viaProxy.map((bundle) => bundle.name)).toEqual(['Recorded Bundle']);
+    expect(direct).toEqual(viaProxy);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+
+  await expect(createReplayTransport(archive)('https://store.steampowered.com/bundlelist/1')).rejects.toThrow(
+    /No recorded response/
+  );
+});
+
+test('createReplayTransport replays responses that carry no body', async () => {
+  const recorder = createTrafficRecorder(async (url) =>
+    url.endsWith('/304') ? new Response(null, { status: 304 }) : new Response(null, { status: 204 })
+  );
+  await recorder.transport('https://store.steampowered.com/204');
+  await recorder.transport('https://store.steampowered.com/304');
+
+  const replayed = createReplayTransport(await recorder.toHar());
+  expect((await replayed('https://store.steampowered.com/204')).status).toBe(204);
+  expect((await replayed('https://store.steampowered.com/304')).status).toBe(304);
+});
+
+test('createTrafficRecorder records pages the response cache would have served', async () => {
+  const { createMemoryCacheStore } = await import('./responseCache');
+  const client = new BundleMasterClient({
+    proxies: [PROXY],
+    transport: createLiveTransport(),
+    cache: { store: createMemoryCacheStore() },
+  });
+  await client.fetchBundleNames('9191');
+
+  const recorder = createTrafficRecorder(createLiveTransport());
+  await client.fetchBundleNames('9191', recorder.fetchOptions);
+  const archive = await recorder.toHar();
+
+  expect(archive.log.entries.map((entry) => entry._targetUrl)).toEqual(
+    expect.arrayContaining([BUNDLE_LIST_URL, BUNDLE_PAGE_URL])
+  );
+  const replayed = createReplayTransport(archive);
+  const bundles = await new BundleMasterClient({ proxies: [], transport: replayed }).fetchBundleNames('9191');
+  expect(bundles.map((bundle) => bundle.name)).toEqual(['Recorded Bundle']);
+});
@@ -0,0 +1,248 @@
+import { DIRECT_SOURCE, type BundleFetchOptions, type BundleFetchTransport } from './bundles';
+import { describeError } from './errors';
+import { loadFileSystem } from './responseCache';
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    headers: HarHeader[];
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: HarHeader[];
+    content: {
+      size: number;
+      mimeType: string;
+      text: string;
+    };
+  };
+  _source: string;
+  _targetUrl: string;
+  // Set when the request failed before a complete response was received.
+  _error?: string;
+}
+
+export interface HarArchive {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+export interface TrafficRecorder {
+  transport: BundleFetchTransport;
+  // Routes a run through the recorder; cached responses are bypassed so that every page ends up in the archive.
+  fetchOptions: Pick<BundleFetchOptions, 'transport' | 'forceRefresh'>;
+  /** Waits for pending response bodies and returns everything recorded so far. */
+  toHar(): Promise<HarArchive>;
+  clear(): void;
+}
+
+export interface ReplayTransportOptions {
+  // Called for requests the archive has no response for; defaults to rejecting like a network error.
+  onMissing?: (url: string) => Promise<Response>;
+}
+
+const HAR_VERSION = '1.2';
+// The Response constructor rejects any body, even an empty one, for these statuses.
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+const CREATOR = { name: 'steam-bundle-analyzer', version: '0.1.0' };
+
+/**
+ * Wraps a transport and records every request together with the response status, headers,
+ * body and the proxy it went through.
+ */
+export function createTrafficRecorder(
+  inner: BundleFetchTransport = (url, init) => fetch(url, init),
+): TrafficRecorder {
+  let entries: HarEntry[] = [];
+  const pending = new Set<Promise<void>>();
+
+  const track = (task: Promise<void>) => {
+    pending.add(task);
+    void task.finally(() => pending.delete(task));
+  };
+
+  const transport: BundleFetchTransport = async (url, init) => {
+    const startedAt = Date.now();
+    const { source, targetUrl } = splitProxyUrl(url);
+    const target = entries;
+    const baseEntry = {
+      startedDateTime: new Date(startedAt).toISOString(),
+      request: { method: init?.method ?? 'GET', url, headers: toHarHeaders(init?.headers) },
+      _source: source,
+      _targetUrl: targetUrl,
+    };
+
+    let response: Response;
+    try {
+      response = await inner(url, init);
+    } catch (error) {
+      target.push({
+        ...baseEntry,
+        time: Date.now() - startedAt,
+        response: emptyResponse(),
+        _error: describeError(error),
+      });
+      throw error;
+    }
+
+    // Reading a clone keeps the original body untouched for the client.
+    const copy = response.clone();
+    track(
+      copy.text().then(
+        (text) => {
+          target.push({
+            ...baseEntry,
+            time: Date.now() - startedAt,
+            response: {
+              status: response.status,
+              statusText: response.statusText,
+              headers: toHarHeaders(response.headers),
+              content: {
+                size: text.length,
+                mimeType: response.headers.get('content-type') ?? '',
+                text,
+              },
+            },
+          });
+        },
+        (error: unknown) => {
+          target.push({
+            ...baseEntry,
+            time: Date.now() - startedAt,
+            response: {
+              ...emptyResponse(),
+              status: response.status,
+              statusText: response.statusText,
+              headers: toHarHeaders(response.headers),
+            },
+            _error: describeError(error),
+          });
+        },
+      ),
+    );
+    return response;
+  };
+
+  return {
+    transport,
+    fetchOptions: { transport, forceRefresh: true },
+    async toHar() {
+      await Promise.all([...pending]);
+      const sorted = [...entries].sort((left, right) =>
+        left.startedDateTime.localeCompare(right.startedDateTime)
+      );
+      return { log: { version: HAR_VERSION, creator: { ...CREATOR }, entries: sorted } };
+    },
+    clear() {
+      entries = [];
+    },
+  };
+}
+
+/**
+ * Serves responses from a recorded archive. Requests are matched on the exact URL first and
+ * then on the Steam URL alone, so a recording made through a proxy can be replayed without one.
+ * Repeated requests receive the recorded responses in order; the last one is reused afterwards.
+ */
+export function createReplayTransport(
+  archive: HarArchive,
+  options: ReplayTransportOptions = {},
+): BundleFetchTransport {
+  const byUrl = new Map<string, HarEntry[]>();
+  const byTarget = new Map<string, HarEntry[]>();
+  for (const entry of archive.log.entries) {
+    appendTo(byUrl, entry.request.url, entry);
+    appendTo(byTarget, entry._targetUrl ?? splitProxyUrl(entry.request.url).targetUrl, entry);
+  }
+  const served = new Map<HarEntry[], number>();
+
+  return async (url, init) => {
+    if (init?.signal?.aborted) {
+      throw init.signal.reason ?? new DOMException('Aborted', 'AbortError');
+    }
+
+    const candidates = byUrl.get(url) ?? byTarget.get(splitProxyUrl(url).targetUrl);
+    if (!candidates) {
+      if (options.onMissing) {
+        return options.onMissing(url);
+      }
+      throw new TypeError(`No recorded response for ${url}`);
+    }
+
+    const index = served.get(candidates) ?? 0;
+    served.set(candidates, index + 1);
+    const entry = candidates[Math.min(index, candidates.length - 1)];
+    if (entry._error && entry.response.status === 0) {
+      throw new TypeError(entry._error);
+    }
+    const status = entry.response.status;
+    return new Response(NULL_BODY_STATUSES.has(status) ? null : entry.response.content.text, {
+      status,
+      statusText: entry.response.statusText,
+      headers: entry.response.headers.map(({ name, value }) => [name, value] as [string, string]),
+    });
+  };
+}
+
+export function parseHarArchive(raw: string): HarArchive {
+  const parsed = JSON.parse(raw) as Partial<HarArchive> | null;
+  if (!parsed?.log || !Array.isArray(parsed.log.entries)) {
+    throw new Error('File is not a HAR archive (missing log.entries)');
+  }
+  return parsed as HarArchive;
+}
+
+export async function saveHarFile(filePath: string, archive: HarArchive): Promise<void> {
+  const fs = await loadFileSystem();
+  await fs.writeFile(filePath, JSON.stringify(archive, null, 2), 'utf8');
+}
+
+export async function loadHarFile(filePath: string): Promise<HarArchive> {
+  const fs = await loadFileSystem();
+  return parseHarArchive(await fs.readFile(filePath, 'utf8'));
+}
+
+// Proxies in use take the target URL appended verbatim, e.g. `https://r.jina.ai/https://store…`.
+function splitProxyUrl(url: string): { source: string; targetUrl: string } {
+  const index = url.slice(1).search(/https?:\/\//) + 1;
+  if (index > 0) {
+    return { source: url.slice(0, index), targetUrl: url.slice(index) };
+  }
+  return { source: DIRECT_SOURCE, targetUrl: url };
+}
+
+function appendTo(map: Map<string, HarEntry[]>, key: string, entry: HarEntry) {
+  const list = map.get(key);
+  if (list) {
+    list.push(entry);
+  } else {
+    map.set(key, [entry]);
+  }
+}
+
+function toHarHeaders(headers: HeadersInit | undefined): HarHeader[] {
+  if (!headers) {
+    return [];
+  }
+  const result: HarHeader[] = [];
+  new Headers(headers).forEach((value, name) => {
+    result.push({ name, value });
+  });
+  return result;
+}
+
+function emptyResponse(): HarEntry['response'] {
+  return { status: 0, statusText: '', headers: [], content: { size: 0, mimeType: '', text: '' } };
+}